@@ -1,26 +1,119 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import JSZip from 'jszip';
 import { Layout } from './components/Layout';
 import { SentenceItem } from './components/SentenceItem';
+import { VirtualTable } from './components/VirtualTable';
+import { ImageGallery } from './components/ImageGallery';
 import { ImagePreviewModal } from './components/ImagePreviewModal';
-import { EnglishSentence, GenerationStatus } from './types';
-import { generateImageWithStyle } from './services/geminiService';
-import { saveImage, getImage, getAllImages, deleteImage, getAllKeys } from './services/dbService';
+import { ProviderSettings } from './components/ProviderSettings';
+import { BatchProgress } from './components/BatchProgress';
+import { ProjectSwitcher } from './components/ProjectSwitcher';
+import { PromptTemplateEditor } from './components/PromptTemplateEditor';
+import { CharacterBible } from './components/CharacterBible';
+import { ApiSettingsModal } from './components/ApiSettingsModal';
+import { UsageDashboard } from './components/UsageDashboard';
+import { StyleReferenceGallery } from './components/StyleReferenceGallery';
+import { QualityCheckSettings } from './components/QualityCheckSettings';
+import { ReviewMode } from './components/ReviewMode';
+import { CsvImportDialog } from './components/CsvImportDialog';
+import { FieldSettings } from './components/FieldSettings';
+import { ListFilterPanel } from './components/ListFilterPanel';
+import { EnglishSentence, GenerationStatus, ImageProviderConfig, GenerationJob, QueueState, ProjectSettings, SchedulerOptions, Project, PromptTemplate, Character, PronounPin, ImageVariant, ImageChecker, GeneratedImage, ImageMeta, GeminiSettings, UsageRecord, UsageSettings, QualitySettings, QualityCheck, ReviewStatus, FieldDefinition, ListFilter, ListQuery, SavedView, SearchMode } from './types';
+import { createImageProvider, createScenePromptWriter, createImageChecker, toBlob, fromBlob, supportsReferenceImages } from './services/imageProviderService';
+import { createGenerationScheduler, GenerationScheduler, SchedulerStats } from './services/schedulerService';
+import { buildPromptContext, renderPromptTemplate, renderNegativePrompt, getPlaceholders } from './services/promptService';
+import { SentenceEdit, editSentence, nextSentenceId, moveSentence, hasSentenceText } from './services/sentenceEditService';
+import { backfillThumbnails } from './services/thumbnailService';
+import { getImage, getImages, deleteImage, getAllKeys, setMigrationListener, saveJobs, updateJob, getAllJobs, deleteJob, clearJobs, recoverStaleJobs, getSetting, saveSetting, saveSentences, getAllSentences, deleteImageMeta, getAllImageMeta, getAllUsageRecords, clearUsageRecords } from './services/dbService';
+import { DEFAULT_PROJECT_SETTINGS, loadProjectSettings, saveProjectSettings, listProjects, createProject, renameProject, removeProject, getActiveProjectId, activateProject, getProjectSlug, savePromptTemplateVersion } from './services/projectService';
+import { getErrorMessage, classifyError } from './services/errorService';
+import { loadGeminiSettings, saveGeminiSettings, hasGeminiApiKey } from './services/apiSettingsService';
+import { createUsageTracker, loadUsageSettings, saveUsageSettings } from './services/usageService';
+import { selectVariant, saveGeneration, archiveUnversionedImage, deleteSentenceImages, MAX_CANDIDATES } from './services/variantService';
+import { loadStyleReferenceImages, MAX_STYLE_REFERENCES } from './services/styleReferenceService';
+import { loadCharacters, saveCharacters, createCharacterResolver, describeCharacters, getCharacterReferenceImages } from './services/characterService';
 import { exportBackup, importBackup } from './services/backupService';
+import { passesQualityCheck, saveQualityResult, QUALITY_FLAG_LABELS } from './services/qualityService';
+import { applyReview, isUnreviewed } from './services/reviewService';
+import { parseDelimited, toCsv, CsvTable } from './services/csvService';
+import { completeFieldDefinitions, mergeFieldDefinitions, getDistinctFieldValues, compareFieldValues } from './services/fieldService';
+import { DEFAULT_LIST_QUERY, SEARCH_MODE_LABELS, filterSentences, sortSentences, createSearchMatcher, isFiltered } from './services/listQueryService';
+
+// Everything a running queue needs that isn't stored on the job itself
+const ASPECT_RATIO = '1:1';
+// Table rows start from this height until they are measured
+const ESTIMATED_ROW_HEIGHT = 113;
+const MIN_TILE_SIZE = 96;
+const MAX_TILE_SIZE = 256;
+const DEFAULT_TILE_SIZE = 160;
+
+// 'view:<id>' exports what a saved view matches
+type ExportScope = 'all' | 'approved' | 'shown' | `view:${string}`;
+
+type TableRow =
+  | { kind: 'group'; value: string; members: EnglishSentence[] }
+  | { kind: 'sentence'; sentence: EnglishSentence };
+
+type QueueContext = Pick<ProjectSettings, 'providerConfig' | 'schedulerOptions' | 'styleReferenceIds' | 'historyLimit' | 'qualityCheck'> & { characters: Character[] };
 
 const App: React.FC = () => {
   const [sentences, setSentences] = useState<EnglishSentence[]>([]);
-  const [styleDescription, setStyleDescription] = useState<string>('educational manga illustration, flat color style, friendly character design, clear composition, simple background, textbook illustration art');
-  const [batchSize, setBatchSize] = useState(10);
+  const [styleDescription, setStyleDescription] = useState<string>(DEFAULT_PROJECT_SETTINGS.styleDescription);
+  const [providerConfig, setProviderConfig] = useState<ImageProviderConfig>(DEFAULT_PROJECT_SETTINGS.providerConfig);
+  const [batchSize, setBatchSize] = useState(DEFAULT_PROJECT_SETTINGS.batchSize);
+  const [schedulerOptions, setSchedulerOptions] = useState<SchedulerOptions>(DEFAULT_PROJECT_SETTINGS.schedulerOptions);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [activeProjectId, setActiveProjectId] = useState<string | null>(null);
+  const [batchStats, setBatchStats] = useState<SchedulerStats | null>(null);
+  const [twoStage, setTwoStage] = useState(DEFAULT_PROJECT_SETTINGS.twoStage);
+  const [promptTemplate, setPromptTemplate] = useState<PromptTemplate>(DEFAULT_PROJECT_SETTINGS.promptTemplate);
+  const [historyLimit, setHistoryLimit] = useState(DEFAULT_PROJECT_SETTINGS.historyLimit);
+  const [candidateCount, setCandidateCount] = useState(DEFAULT_PROJECT_SETTINGS.candidateCount);
+  const [styleReferenceIds, setStyleReferenceIds] = useState<string[]>(DEFAULT_PROJECT_SETTINGS.styleReferenceIds);
+  const [qualityCheck, setQualityCheck] = useState<QualitySettings>(DEFAULT_PROJECT_SETTINGS.qualityCheck);
+  const [fieldDefinitions, setFieldDefinitions] = useState<FieldDefinition[]>(DEFAULT_PROJECT_SETTINGS.fieldDefinitions);
+  const [isTemplateEditorOpen, setIsTemplateEditorOpen] = useState(false);
+  const [characters, setCharacters] = useState<Character[]>([]);
+  const [pronounPins, setPronounPins] = useState<PronounPin[]>([]);
+  const [isCharacterBibleOpen, setIsCharacterBibleOpen] = useState(false);
+  const [geminiSettings, setGeminiSettings] = useState<GeminiSettings>(loadGeminiSettings);
+  const [isApiSettingsOpen, setIsApiSettingsOpen] = useState(false);
+  const [usageRecords, setUsageRecords] = useState<UsageRecord[]>([]);
+  const [usageSettings, setUsageSettings] = useState<UsageSettings>(loadUsageSettings);
+  // Either the image queue or the scene prompt stage; both share the pause / resume / cancel controls
+  const schedulerRef = useRef<Pick<GenerationScheduler<unknown>, 'pause' | 'resume' | 'cancel'> | null>(null);
+  const initializedRef = useRef(false);
+  const sentencesRef = useRef<EnglishSentence[]>([]);
+  const saveTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Unsaved inline edits by sentence id; a ref, since only rows mounting again read them
+  const editDraftsRef = useRef(new Map<string, SentenceEdit>());
+  const [queuedJobCount, setQueuedJobCount] = useState(0);
   const [status, setStatus] = useState<GenerationStatus>(GenerationStatus.IDLE);
   const [activeTab, setActiveTab] = useState<'upload' | 'manage'>('upload');
-  const [visibleCount, setVisibleCount] = useState(20);
-  const [searchTerm, setSearchTerm] = useState('');
+  const [viewMode, setViewMode] = useState<'table' | 'grid'>('table');
+  const [tileSize, setTileSize] = useState(DEFAULT_TILE_SIZE);
+  const [listQuery, setListQuery] = useState<ListQuery>(DEFAULT_LIST_QUERY);
+  const [savedViews, setSavedViews] = useState<SavedView[]>(DEFAULT_PROJECT_SETTINGS.savedViews);
+  // The saved view the list shows unchanged; editing the query clears it
+  const [activeViewId, setActiveViewId] = useState<string | null>(null);
+  const [showFilters, setShowFilters] = useState(false);
+  // Moves "today" and "last 7 days" along while the tab stays open
+  const [clock, setClock] = useState(Date.now);
+  const [groupBy, setGroupBy] = useState('');
+  const [reviewQueue, setReviewQueue] = useState<string[] | null>(null);
+  const [exportScope, setExportScope] = useState<ExportScope>('all');
   const [exportProgress, setExportProgress] = useState<number | null>(null);
-  const [previewImage, setPreviewImage] = useState<{ id: string, url: string } | null>(null);
+  // Set while an opened database converts its stored images to the current format
+  const [upgradeProgress, setUpgradeProgress] = useState<number | null>(null);
+  const [imageMeta, setImageMeta] = useState<Record<string, ImageMeta>>({});
+  const [previewId, setPreviewId] = useState<string | null>(null);
   const [dataVersion, setDataVersion] = useState(0);
+  const [csvImport, setCsvImport] = useState<{ fileName: string; table: CsvTable } | null>(null);
+  // Row added from the table that has not been saved with a text yet
+  const [newSentenceId, setNewSentenceId] = useState<string | null>(null);
 
-  // CSV Parsing
+  // CSV / TSV import: parse here, then map columns and validate in the dialog
   const handleCsvUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
@@ -28,22 +121,43 @@ const App: React.FC = () => {
     const reader = new FileReader();
     reader.onload = (event) => {
       const text = event.target?.result as string;
-      const lines = text.split(/\r?\n/);
-      const parsed: EnglishSentence[] = lines
-        .slice(1) // skip header
-        .filter(line => line.trim())
-        .map(line => {
-          const [id, ...rest] = line.split(',');
-          return {
-            id: id?.trim(),
-            english_text: rest.join(',').trim().replace(/^"|"$/g, ''),
-            status: 'pending' as const
-          };
-        });
-      setSentences(parsed);
-      setActiveTab('manage');
+      setCsvImport({ fileName: file.name, table: parseDelimited(text) });
     };
+    reader.onerror = () => alert("Failed to read the file.");
     reader.readAsText(file);
+    e.target.value = '';
+  };
+
+  const handleCsvImport = async (imported: EnglishSentence[], importedFields: FieldDefinition[], deletedIds: string[]) => {
+    // Running jobs would write images for sentences the import removes
+    if (status !== GenerationStatus.IDLE) {
+      alert("Wait for the current batch to finish before importing.");
+      return;
+    }
+    const importedIds = new Set(imported.map(s => s.id));
+    const removedIds = sentences.filter(s => !importedIds.has(s.id)).map(s => s.id);
+    setSentences(imported);
+    editDraftsRef.current.clear();
+    setFieldDefinitions(prev => mergeFieldDefinitions(prev, importedFields, imported));
+    updateListQuery({ field: null });
+    setGroupBy('');
+    setCsvImport(null);
+    setActiveTab('manage');
+    try {
+      // Queued jobs of removed sentences would otherwise come back after a reload
+      for (const id of removedIds) await deleteJob(id);
+    } catch (error) {
+      console.error("Failed to remove queued jobs of removed sentences:", error);
+    }
+    if (deletedIds.length === 0) return;
+    try {
+      for (const id of deletedIds) await deleteSentenceImages(id);
+      setStyleReferenceIds(prev => prev.filter(id => !deletedIds.includes(id)));
+      setDataVersion(prev => prev + 1);
+    } catch (error) {
+      console.error("Failed to delete images of removed sentences:", error);
+      alert("Some images of removed sentences could not be deleted.");
+    }
   };
 
   // Lightweight Sync with IDB (just updates status, doesn't load images)
@@ -56,7 +170,8 @@ const App: React.FC = () => {
         
         setSentences(prev => prev.map(s => {
           const hasImage = keySet.has(s.id);
-          if (hasImage && s.status !== 'completed') {
+          // A failed or running regeneration keeps its status even though an earlier image exists
+          if (hasImage && s.status === 'pending') {
              return { ...s, status: 'completed' };
           }
           if (!hasImage && s.status === 'completed') {
@@ -72,75 +187,667 @@ const App: React.FC = () => {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [sentences.length, dataVersion]);
 
+  // Metadata is small, so keep all of it in memory for searching
+  useEffect(() => {
+    if (!isLoaded) return;
+    getAllImageMeta()
+      .then(list => setImageMeta(Object.fromEntries(list.map(meta => [meta.id, meta]))))
+      .catch(e => console.error("Failed to load image metadata", e));
+  }, [dataVersion, isLoaded]);
+
+  // Logs every provider call of a run and enforces the budget cap. If the stored log
+  // can't be read, the copy loaded at startup still counts toward the budget.
+  const createTracker = async () => {
+    let records = usageRecords;
+    try {
+      records = await getAllUsageRecords();
+    } catch (e) {
+      console.error("Failed to load usage log, using the one in memory", e);
+    }
+    return createUsageTracker({
+      projectId: getActiveProjectId() || 'default',
+      records,
+      onRecord: record => setUsageRecords(prev => [...prev, record])
+    });
+  };
+
   // Batch Generation Logic
-  const startBatch = async () => {
-    if (status === GenerationStatus.RUNNING) return;
-    setStatus(GenerationStatus.RUNNING);
-    
-    const pending = sentences.filter(s => s.status !== 'completed').slice(0, batchSize);
-    
-    for (const s of pending) {
-      let attempts = 0;
-      const maxRetries = 3;
-      let success = false;
-
-      while (attempts < maxRetries && !success) {
-        attempts++;
-        try {
-          setSentences(prev => prev.map(p => p.id === s.id ? { ...p, status: 'processing' } : p));
-          const url = await generateImageWithStyle(s.english_text, styleDescription);
-          await saveImage(s.id, url);
-          
-          setSentences(prev => prev.map(p => p.id === s.id ? { ...p, imageUrl: url, status: 'completed' } : p));
-          success = true;
-        } catch (err) {
-          console.error(`Failed to generate image for ${s.id} (Attempt ${attempts}/${maxRetries}):`, err);
-          if (attempts === maxRetries) {
-            setSentences(prev => prev.map(p => p.id === s.id ? { ...p, status: 'error' } : p));
-          } else {
-            await new Promise(resolve => setTimeout(resolve, 1000));
+  const runQueue = async (jobs: GenerationJob[], context: QueueContext) => {
+    const { schedulerOptions } = context;
+    const tracker = await createTracker();
+    const provider = tracker.trackImageProvider(createImageProvider(context.providerConfig), context.providerConfig);
+    const checker = context.qualityCheck.enabled
+      ? tracker.trackImageChecker(createImageChecker(context.providerConfig), context.providerConfig)
+      : null;
+    const charactersById = new Map(context.characters.map(c => [c.id, c]));
+    // Read once per run so every job in the batch is anchored to the same references
+    const styleReferences = await loadStyleReferenceImages(context.styleReferenceIds);
+
+    const scheduler = createGenerationScheduler<GenerationJob>({
+      run: async (job, attempt) => {
+        const jobCharacters = (job.characterIds || []).flatMap(id => charactersById.get(id) || []);
+        const variants: ImageVariant[] = [];
+        const generationId = crypto.randomUUID();
+        let quality: QualityCheck | undefined;
+        for (let i = 0; i < Math.max(1, job.candidates || 1); i++) {
+          const image = await provider.generate(job.prompt, {
+            negativePrompt: job.negativePrompt,
+            referenceImages: [...styleReferences, ...getCharacterReferenceImages(jobCharacters)],
+            aspectRatio: ASPECT_RATIO
+          });
+          // Only the candidate that gets selected is checked
+          if (i === 0 && checker) {
+            quality = await checkGeneratedImage(checker, image, job, attempt, context);
           }
+          variants.push({
+            id: crypto.randomUUID(),
+            sentenceId: job.id,
+            generationId,
+            image: toBlob(image),
+            templateVersion: job.templateVersion,
+            prompt: job.prompt,
+            negativePrompt: job.negativePrompt,
+            styleDescription: job.styleDescription,
+            provider: image.metadata.provider,
+            model: image.metadata.model,
+            aspectRatio: ASPECT_RATIO,
+            durationMs: image.metadata.durationMs,
+            attempts: attempt,
+            quality: i === 0 ? quality : undefined,
+            createdAt: Date.now()
+          });
         }
-      }
+        const meta = await saveGeneration(variants, context.historyLimit);
+        await deleteJob(job.id);
+        const flaggedForReview = quality && !passesQualityCheck(quality, context.qualityCheck) ? true : undefined;
+        setImageMeta(prev => ({ ...prev, [job.id]: meta }));
+        setSentences(prev => prev.map(p => p.id === job.id ? { ...p, status: 'completed', error: undefined, errorKind: undefined, flaggedForReview, review: undefined, stale: undefined } : p));
+      },
+      onStart: (job, attempt) => {
+        updateJob(job.id, { status: 'processing', attempts: attempt });
+        setSentences(prev => prev.map(p => p.id === job.id ? { ...p, status: 'processing' } : p));
+      },
+      onRetry: (job, attempt, delayMs, err) => {
+        console.error(`Failed to generate image for ${job.id} (Attempt ${attempt}/${schedulerOptions.maxAttempts}), retrying in ${delayMs}ms:`, err);
+        updateJob(job.id, { status: 'queued', lastError: getErrorMessage(err), lastErrorKind: classifyError(err) });
+        // Waiting for a retry or the end of a pause, not generating
+        setSentences(prev => prev.map(p => p.id === job.id ? { ...p, status: 'pending' } : p));
+      },
+      onCancel: (job) => {
+        updateJob(job.id, { status: 'queued' });
+        setSentences(prev => prev.map(p => p.id === job.id && p.status === 'processing' ? { ...p, status: 'pending' } : p));
+      },
+      onFailure: (job, err) => {
+        console.error(`Failed to generate image for ${job.id}:`, err);
+        const error = getErrorMessage(err);
+        const errorKind = classifyError(err);
+        updateJob(job.id, { status: 'failed', lastError: error, lastErrorKind: errorKind });
+        setSentences(prev => prev.map(p => p.id === job.id ? { ...p, status: 'error', error, errorKind } : p));
+      },
+      onStats: setBatchStats
+    }, schedulerOptions);
+
+    schedulerRef.current = scheduler;
+    setQueuedJobCount(0);
+    setStatus(GenerationStatus.RUNNING);
+    try {
+      await scheduler.run(jobs, job => job.attempts + 1);
+    } finally {
+      schedulerRef.current = null;
+      setBatchStats(null);
+      setStatus(GenerationStatus.IDLE);
+    }
+  };
+
+  // Throws to have the scheduler regenerate a failing image while attempts remain;
+  // the last attempt's image is kept and flagged instead
+  const checkGeneratedImage = async (
+    checker: ImageChecker,
+    image: GeneratedImage,
+    job: GenerationJob,
+    attempt: number,
+    context: QueueContext
+  ): Promise<QualityCheck | undefined> => {
+    let quality: QualityCheck;
+    try {
+      quality = (await checker.check(image, { text: job.text, styleDescription: job.styleDescription || styleDescription })).quality;
+    } catch (error) {
+      // A check that cannot run must not throw away a good image
+      console.error(`Quality check failed to run for ${job.id}:`, error);
+      return undefined;
+    }
+    const { qualityCheck: settings, schedulerOptions: { maxAttempts } } = context;
+    if (settings.onFail === 'regenerate' && attempt < maxAttempts && !passesQualityCheck(quality, settings)) {
+      const flags = quality.flags.map(flag => QUALITY_FLAG_LABELS[flag]).join(', ');
+      throw new Error(`Quality check failed (score ${quality.score}${flags ? `: ${flags}` : ''})`);
+    }
+    return quality;
+  };
+
+  // Renders the prompt with the current template unless one is given
+  const buildJob = (s: EnglishSentence, enqueuedAt: number, prompt?: string): GenerationJob => {
+    const found = resolveCharacters(s);
+    return {
+      id: s.id,
+      text: s.english_text,
+      prompt: prompt ?? renderPromptTemplate(promptTemplate.body, buildPromptContext(s, styleDescription, {
+        useScene: twoStage,
+        characters: describeCharacters(found)
+      })),
+      negativePrompt: renderNegativePrompt(promptTemplate),
+      templateVersion: promptTemplate.version,
+      styleDescription,
+      characterIds: found.map(c => c.id),
+      candidates: candidateCount,
+      status: 'queued',
+      attempts: 0,
+      enqueuedAt,
+      updatedAt: enqueuedAt
+    };
+  };
+
+  // Limited to `scope` when generating one group or filter, e.g. a single unit
+  const startBatch = async (scope: EnglishSentence[] = sentences) => {
+    if (status !== GenerationStatus.IDLE) return;
+    if (providerConfig.type === 'gemini' && !geminiSettings.apiKey) {
+      setIsApiSettingsOpen(true);
+      return;
     }
     
+    // In two-stage mode only sentences with an approved scene prompt are ready for images
+    const pending = scope
+      .filter(s => s.status !== 'completed' && hasSentenceText(s) && (!twoStage || s.visualPromptStatus === 'approved'))
+      .slice(0, batchSize);
+    if (pending.length === 0) {
+      if (twoStage) alert("No sentences with approved scene prompts are waiting for images.");
+      return;
+    }
+    const now = Date.now();
+    await enqueueJobs(pending.map((s, index) => buildJob(s, now + index)));
+  };
+
+  const handleRetryFailed = async () => {
+    if (status !== GenerationStatus.IDLE) return;
+    const failed = sentences.filter(s => s.status === 'error');
+    if (failed.length === 0) return;
+    if (providerConfig.type === 'gemini' && !geminiSettings.apiKey) {
+      setIsApiSettingsOpen(true);
+      return;
+    }
+    const now = Date.now();
+    await enqueueJobs(failed.map((s, index) => buildJob(s, now + index)));
+  };
+
+  // Generates new images for sentences that already have one
+  const regenerateSentences = async (scope: EnglishSentence[]) => {
+    const targets = scope.filter(hasSentenceText);
+    if (status !== GenerationStatus.IDLE || targets.length === 0) return;
+    if (providerConfig.type === 'gemini' && !geminiSettings.apiKey) {
+      setIsApiSettingsOpen(true);
+      return;
+    }
+    const now = Date.now();
+    await enqueueJobs(targets.map((s, index) => buildJob(s, now + index)));
+  };
+
+  // Lets a blocked or misread sentence be retried with a hand-edited prompt
+  const handleRetryWithPrompt = async (id: string) => {
+    if (status !== GenerationStatus.IDLE) {
+      alert("Wait for the current batch to finish before retrying a single sentence.");
+      return;
+    }
+    const sentence = sentences.find(s => s.id === id);
+    if (!sentence) return;
+    const draft = buildJob(sentence, Date.now());
+    const prompt = window.prompt('Edit the prompt for this retry:', draft.prompt)?.trim();
+    if (!prompt) return;
+    await enqueueJobs([{ ...draft, prompt }]);
+  };
+
+  const enqueueJobs = async (jobs: GenerationJob[]) => {
+    try {
+      await clearJobs();
+      await saveJobs(jobs);
+      await saveSetting<QueueState>('queueState', { paused: false });
+    } catch (error) {
+      console.error("Failed to persist generation queue:", error);
+      alert("Failed to start batch.");
+      return;
+    }
+    await runQueue(jobs, { providerConfig, schedulerOptions, styleReferenceIds, historyLimit, qualityCheck, characters });
+  };
+
+  // Stage one of the two-stage pipeline: draft a scene prompt for each sentence
+  const startPromptStage = async () => {
+    if (status !== GenerationStatus.IDLE) return;
+    // Scene prompts are written by Gemini for every provider except the mock
+    if (providerConfig.type !== 'mock' && !geminiSettings.apiKey) {
+      setIsApiSettingsOpen(true);
+      return;
+    }
+
+    const targets = sentences.filter(s => s.status !== 'completed' && !s.visualPrompt && hasSentenceText(s)).slice(0, batchSize);
+    if (targets.length === 0) {
+      alert("Every remaining sentence already has a scene prompt.");
+      return;
+    }
+
+    const tracker = await createTracker();
+    const writer = tracker.trackScenePromptWriter(createScenePromptWriter(providerConfig), providerConfig);
+    const scheduler = createGenerationScheduler<EnglishSentence>({
+      run: async (s) => {
+        const visualPrompt = (await writer.describe(s.english_text, styleDescription)).text.trim();
+        setSentences(prev => prev.map(p => p.id === s.id ? { ...p, visualPrompt, visualPromptStatus: 'draft' } : p));
+      },
+      onRetry: (s, attempt, delayMs, err) => {
+        console.error(`Failed to write scene prompt for ${s.id} (Attempt ${attempt}/${schedulerOptions.maxAttempts}), retrying in ${delayMs}ms:`, err);
+      },
+      onFailure: (s, err) => {
+        console.error(`Failed to write scene prompt for ${s.id}:`, err);
+      },
+      onStats: setBatchStats
+    }, schedulerOptions);
+
+    schedulerRef.current = scheduler;
+    setStatus(GenerationStatus.RUNNING);
+    try {
+      await scheduler.run(targets);
+    } finally {
+      schedulerRef.current = null;
+      setBatchStats(null);
+      setStatus(GenerationStatus.IDLE);
+    }
+  };
+
+  // Runs the quality check over images generated before it was switched on
+  const startQualityStage = async () => {
+    if (status !== GenerationStatus.IDLE) return;
+    // Checks are answered by Gemini for every provider except the mock
+    if (providerConfig.type !== 'mock' && !geminiSettings.apiKey) {
+      setIsApiSettingsOpen(true);
+      return;
+    }
+
+    const targets = sentences.filter(s => s.status === 'completed' && !imageMeta[s.id]?.quality);
+    if (targets.length === 0) return;
+
+    const tracker = await createTracker();
+    const checker = tracker.trackImageChecker(createImageChecker(providerConfig), providerConfig);
+    const scheduler = createGenerationScheduler<EnglishSentence>({
+      run: async (s) => {
+        const image = await getImage(s.id);
+        if (!image) return;
+        const { quality } = await checker.check(await fromBlob(image), {
+          text: s.english_text,
+          styleDescription: imageMeta[s.id]?.styleDescription || styleDescription
+        });
+        const meta = await saveQualityResult(s.id, quality);
+        const flaggedForReview = passesQualityCheck(quality, qualityCheck) ? undefined : true;
+        setImageMeta(prev => ({ ...prev, [s.id]: meta }));
+        setSentences(prev => prev.map(p => p.id === s.id ? { ...p, flaggedForReview } : p));
+      },
+      onRetry: (s, attempt, delayMs, err) => {
+        console.error(`Failed to check image for ${s.id} (Attempt ${attempt}/${schedulerOptions.maxAttempts}), retrying in ${delayMs}ms:`, err);
+      },
+      onFailure: (s, err) => {
+        console.error(`Failed to check image for ${s.id}:`, err);
+      },
+      onStats: setBatchStats
+    }, schedulerOptions);
+
+    schedulerRef.current = scheduler;
+    setStatus(GenerationStatus.RUNNING);
+    try {
+      await scheduler.run(targets);
+    } finally {
+      schedulerRef.current = null;
+      setBatchStats(null);
+      setStatus(GenerationStatus.IDLE);
+    }
+  };
+
+  const handleReview = (id: string, review: ReviewStatus, note?: string) => {
+    setSentences(prev => prev.map(s => s.id === id ? applyReview(s, review, note) : s));
+  };
+
+  const handleDismissReview = (id: string) => {
+    setSentences(prev => prev.map(s => s.id === id ? { ...s, flaggedForReview: undefined } : s));
+  };
+
+  const handleVisualPromptChange = (id: string, visualPrompt: string) => {
+    setSentences(prev => prev.map(s => s.id === id
+      ? { ...s, visualPrompt: visualPrompt || undefined, visualPromptStatus: visualPrompt ? 'draft' : undefined }
+      : s));
+  };
+
+  const handleApproveVisualPrompt = (id: string) => {
+    setSentences(prev => prev.map(s => s.id === id && s.visualPrompt ? { ...s, visualPromptStatus: 'approved' } : s));
+  };
+
+  const handleApproveAllVisualPrompts = () => {
+    setSentences(prev => prev.map(s => s.visualPromptStatus === 'draft' ? { ...s, visualPromptStatus: 'approved' } : s));
+  };
+
+  const handlePauseQueue = () => {
+    schedulerRef.current?.pause();
+    setStatus(GenerationStatus.PAUSED);
+    saveSetting<QueueState>('queueState', { paused: true });
+  };
+
+  const handleResumeQueue = async () => {
+    saveSetting<QueueState>('queueState', { paused: false });
+    if (schedulerRef.current) {
+      schedulerRef.current.resume();
+      setStatus(GenerationStatus.RUNNING);
+      return;
+    }
+    // Paused before a reload: pick the persisted queue back up
+    if (providerConfig.type === 'gemini' && !geminiSettings.apiKey) {
+      setIsApiSettingsOpen(true);
+      return;
+    }
+    const jobs = (await getAllJobs()).filter(job => job.status === 'queued');
+    if (jobs.length === 0) {
+      setQueuedJobCount(0);
+      setStatus(GenerationStatus.IDLE);
+      return;
+    }
+    await runQueue(jobs, { providerConfig, schedulerOptions, styleReferenceIds, historyLimit, qualityCheck, characters });
+  };
+
+  const handleCancelQueue = async () => {
+    if (!window.confirm('Cancel the batch? Queued sentences will not be generated.')) return;
+    schedulerRef.current?.cancel();
+    try {
+      await clearJobs();
+      await saveSetting<QueueState>('queueState', { paused: false });
+    } catch (error) {
+      console.error("Failed to clear generation queue:", error);
+    }
+    setQueuedJobCount(0);
+    if (!schedulerRef.current) setStatus(GenerationStatus.IDLE);
+  };
+
+  // Resume a batch interrupted by a reload or crash
+  const restoreQueue = async (context: QueueContext) => {
+    const recovered = await recoverStaleJobs();
+    if (recovered > 0) console.log(`Returned ${recovered} stale jobs to the queue.`);
+    const jobs = (await getAllJobs()).filter(job => job.status === 'queued');
+    if (jobs.length === 0) return;
+
+    const queueState = await getSetting<QueueState>('queueState');
+    // Without a key every job would fail, so wait for the user to add one and resume
+    if (queueState?.paused || (context.providerConfig.type === 'gemini' && !hasGeminiApiKey())) {
+      setQueuedJobCount(jobs.length);
+      setStatus(GenerationStatus.PAUSED);
+      return;
+    }
+    await runQueue(jobs, context);
+  };
+
+  // Load the active project's settings, sentence list, then any unfinished batch
+  const loadProject = async () => {
+    let settings = DEFAULT_PROJECT_SETTINGS;
+    let storedCharacters: Character[] = [];
+    try {
+      const [storedSettings, storedSentences, bible] = await Promise.all([loadProjectSettings(), getAllSentences(), loadCharacters()]);
+      settings = storedSettings;
+      storedCharacters = bible.characters;
+      setCharacters(bible.characters);
+      setPronounPins(bible.pronounPins);
+      setStyleDescription(settings.styleDescription);
+      setBatchSize(settings.batchSize);
+      setProviderConfig(settings.providerConfig);
+      setSchedulerOptions(settings.schedulerOptions);
+      setTwoStage(settings.twoStage);
+      setPromptTemplate(settings.promptTemplate);
+      setStyleReferenceIds(settings.styleReferenceIds);
+      setCandidateCount(settings.candidateCount);
+      setHistoryLimit(settings.historyLimit);
+      setQualityCheck(settings.qualityCheck);
+      setFieldDefinitions(settings.fieldDefinitions);
+      setSavedViews(settings.savedViews);
+      // Anything mid-generation when the tab closed is queued again below;
+      // a row added in the table but never given a text is dropped
+      setSentences(storedSentences
+        .filter(s => s.english_text)
+        .map(s => s.status === 'processing' ? { ...s, status: 'pending' } : s));
+      setActiveTab(storedSentences.length > 0 ? 'manage' : 'upload');
+    } catch (e) {
+      console.error("Failed to load saved project", e);
+    } finally {
+      setIsLoaded(true);
+    }
+
+    backfillThumbnails()
+      .then(count => { if (count > 0) console.log(`Created ${count} thumbnails for existing images.`); })
+      .catch(e => console.error("Failed to backfill thumbnails", e));
+
+    try {
+      await restoreQueue({ ...settings, characters: storedCharacters });
+    } catch (e) {
+      console.error("Failed to restore generation queue", e);
+    }
+  };
+
+  // Reopen where we left off
+  useEffect(() => {
+    if (initializedRef.current) return;
+    initializedRef.current = true;
+    setMigrationListener(setUpgradeProgress);
+
+    const init = async () => {
+      try {
+        const list = await listProjects();
+        getAllUsageRecords().then(setUsageRecords).catch(e => console.error("Failed to load usage log", e));
+        const active = list.find(p => p.id === getActiveProjectId()) || list[0];
+        activateProject(active);
+        setProjects(list);
+        setActiveProjectId(active.id);
+      } catch (e) {
+        console.error("Failed to load projects", e);
+      }
+      await loadProject();
+    };
+    init();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  // Write pending sentence changes before the active database changes underneath them
+  const flushSentences = async () => {
+    if (!saveTimerRef.current) return;
+    clearTimeout(saveTimerRef.current);
+    saveTimerRef.current = null;
+    await saveSentences(sentencesRef.current);
+  };
+
+  const switchProject = async (project: Project) => {
+    if (schedulerRef.current) return;
+    try {
+      await flushSentences();
+    } catch (e) {
+      console.error("Failed to save sentences before switching project", e);
+    }
+
+    setIsLoaded(false);
+    setSentences([]);
     setStatus(GenerationStatus.IDLE);
+    setQueuedJobCount(0);
+    setListQuery(DEFAULT_LIST_QUERY);
+    setActiveViewId(null);
+    setExportScope('all');
+    editDraftsRef.current.clear();
+    setGroupBy('');
+    setPreviewId(null);
+    activateProject(project);
+    setActiveProjectId(project.id);
+    setDataVersion(prev => prev + 1);
+    await loadProject();
+  };
+
+  const handleCreateProject = async () => {
+    const name = window.prompt('Name of the new project:')?.trim();
+    if (!name) return;
+    try {
+      const project = await createProject(name);
+      setProjects(prev => [...prev, project]);
+      await switchProject(project);
+    } catch (error) {
+      console.error('Failed to create project:', error);
+      alert('Failed to create project.');
+    }
+  };
+
+  const handleRenameProject = async (project: Project) => {
+    const name = window.prompt('Rename project:', project.name)?.trim();
+    if (!name || name === project.name) return;
+    try {
+      const renamed = await renameProject(project, name);
+      setProjects(prev => prev.map(p => p.id === renamed.id ? renamed : p));
+    } catch (error) {
+      console.error('Failed to rename project:', error);
+      alert('Failed to rename project.');
+    }
+  };
+
+  const handleDeleteProject = async (project: Project) => {
+    if (!window.confirm(`Delete project "${project.name}" with all of its sentences and images? This cannot be undone.`)) return;
+    const remaining = projects.filter(p => p.id !== project.id);
+    if (remaining.length === 0) return;
+    try {
+      if (project.id === activeProjectId) {
+        await switchProject(remaining[0]);
+      }
+      await removeProject(project);
+      setProjects(remaining);
+    } catch (error) {
+      console.error('Failed to delete project:', error);
+      alert('Failed to delete project.');
+    }
+  };
+
+  // Persist the sentence list at most once per second while it keeps changing
+  useEffect(() => {
+    sentencesRef.current = sentences;
+    if (!isLoaded || saveTimerRef.current) return;
+    saveTimerRef.current = setTimeout(() => {
+      saveTimerRef.current = null;
+      saveSentences(sentencesRef.current).catch(e => console.error("Failed to save sentences", e));
+    }, 1000);
+  }, [sentences, isLoaded]);
+
+  useEffect(() => {
+    if (!isLoaded) return;
+    saveProjectSettings({ styleDescription, batchSize, providerConfig, schedulerOptions, twoStage, promptTemplate, styleReferenceIds, candidateCount, historyLimit, qualityCheck, fieldDefinitions, savedViews })
+      .catch(e => console.error("Failed to save project settings", e));
+  }, [styleDescription, batchSize, providerConfig, schedulerOptions, twoStage, promptTemplate, styleReferenceIds, candidateCount, historyLimit, qualityCheck, fieldDefinitions, savedViews, isLoaded]);
+
+  const handleSelectVariant = async (variant: ImageVariant) => {
+    try {
+      const meta = await selectVariant(variant);
+      setImageMeta(prev => ({ ...prev, [variant.sentenceId]: meta }));
+      // Picking a version by hand clears the quality flag, but the new image still needs sign-off
+      setSentences(prev => prev.map(s => s.id === variant.sentenceId ? { ...s, status: 'completed', error: undefined, errorKind: undefined, flaggedForReview: undefined, review: undefined } : s));
+    } catch (error) {
+      console.error('Failed to select variant:', error);
+      alert('Failed to select image.');
+    }
+  };
+
+  const handleToggleStyleReference = (id: string) => {
+    if (styleReferenceIds.includes(id)) {
+      setStyleReferenceIds(prev => prev.filter(refId => refId !== id));
+      return;
+    }
+    if (styleReferenceIds.length >= MAX_STYLE_REFERENCES) {
+      alert(`Up to ${MAX_STYLE_REFERENCES} style references can be used. Remove one first.`);
+      return;
+    }
+    setStyleReferenceIds(prev => [...prev, id]);
+  };
+
+  const handleUsageSettingsChange = (settings: UsageSettings) => {
+    saveUsageSettings(settings);
+    setUsageSettings(settings);
+  };
+
+  const handleClearUsage = async () => {
+    if (!window.confirm('Clear the usage log for all projects? Totals and budget spend start from zero.')) return;
+    try {
+      await clearUsageRecords();
+      setUsageRecords([]);
+    } catch (error) {
+      console.error('Failed to clear usage log:', error);
+      alert('Failed to clear usage log.');
+    }
+  };
+
+  const handleSaveApiSettings = (settings: GeminiSettings) => {
+    saveGeminiSettings(settings);
+    setGeminiSettings(settings);
+    setIsApiSettingsOpen(false);
+  };
+
+  const handleSaveCharacters = async (nextCharacters: Character[], nextPins: PronounPin[]) => {
+    setCharacters(nextCharacters);
+    setPronounPins(nextPins);
+    setIsCharacterBibleOpen(false);
+    try {
+      await saveCharacters(nextCharacters, nextPins);
+    } catch (error) {
+      console.error("Failed to save characters:", error);
+      alert("Failed to save characters.");
+    }
+  };
+
+  const handleSaveTemplate = async (body: string, negativePrompt: string[]) => {
+    const next: PromptTemplate = { version: promptTemplate.version + 1, body, negativePrompt, updatedAt: Date.now() };
+    setPromptTemplate(next);
+    setIsTemplateEditorOpen(false);
+    try {
+      await savePromptTemplateVersion(next);
+    } catch (error) {
+      console.error("Failed to record template version:", error);
+    }
   };
 
   const handleExport = async () => {
     try {
-      const keys = await getAllKeys();
+      const selectedIds = getExportIds();
+      const keys = (await getAllKeys()).filter(id => !selectedIds || selectedIds.has(id));
       if (keys.length === 0) {
-        alert("No images to export.");
+        alert(selectedIds ? "No images in the selection to export." : "No images to export.");
         return;
       }
 
       const CHUNK_SIZE = 500;
       const totalChunks = Math.ceil(keys.length / CHUNK_SIZE);
+      const sentenceById = new Map<string, EnglishSentence>(sentences.map(s => [s.id, s]));
+      const manifestHeader = ['id', 'english_text', 'review', ...fields.map(f => f.name)];
       
       for (let i = 0; i < totalChunks; i++) {
         const chunkKeys = keys.slice(i * CHUNK_SIZE, (i + 1) * CHUNK_SIZE);
         const zip = new JSZip();
         const imgFolder = zip.folder("images");
         
-        let count = 0;
+        const manifest: string[][] = [manifestHeader];
+        const images = await getImages(chunkKeys);
         for (const id of chunkKeys) {
-          const dataUrl = await getImage(id);
-          if (!dataUrl) continue;
-          
-          const base64Data = dataUrl.split(',')[1];
-          if (base64Data) {
-            imgFolder?.file(`${id}.png`, base64Data, { base64: true });
-            count++;
-          }
+          const image = images.get(id);
+          if (!image) continue;
+          imgFolder?.file(`${id}.png`, image);
+          const s = sentenceById.get(id);
+          manifest.push([id, s?.english_text || '', s?.review || '', ...fields.map(f => s?.fields?.[f.name] || '')]);
         }
 
-        if (count > 0) {
+        if (manifest.length > 1) {
+          // Lets the images be matched back to their sentence, unit, translation and so on
+          zip.file('sentences.csv', toCsv(manifest));
           const content = await zip.generateAsync({ type: "blob" });
           const url = URL.createObjectURL(content);
           const a = document.createElement('a');
           a.href = url;
-          a.download = `english_visualizer_export_part${i + 1}_of_${totalChunks}.zip`;
+          a.download = `english_visualizer_${activeProject ? getProjectSlug(activeProject) : 'export'}_part${i + 1}_of_${totalChunks}.zip`;
           a.click();
           URL.revokeObjectURL(url);
           
@@ -157,7 +864,7 @@ const App: React.FC = () => {
     try {
       setExportProgress(0);
       await new Promise(resolve => setTimeout(resolve, 100));
-      await exportBackup(sentences, (progress) => setExportProgress(progress));
+      await exportBackup(sentences, (progress) => setExportProgress(progress), activeProject, fields);
     } catch (error) {
       console.error("Backup failed:", error);
       alert("Failed to create backup. If the file is very large, try using Chrome or Edge for better memory management.");
@@ -172,7 +879,10 @@ const App: React.FC = () => {
 
     try {
       setExportProgress(0);
-      const { imageCount, restoredSentences, legacyImageIds } = await importBackup(file, (progress) => setExportProgress(progress));
+      const { imageCount, restoredSentences, legacyImageIds, fieldDefinitions: restoredFields } = await importBackup(file, (progress) => setExportProgress(progress));
+      if (restoredFields.length > 0) {
+        setFieldDefinitions(prev => [...prev.filter(f => !restoredFields.some(r => r.name === f.name)), ...restoredFields]);
+      }
       
       setSentences(prev => {
         const idMap = new Map(prev.map(s => [s.id, s]));
@@ -184,8 +894,7 @@ const App: React.FC = () => {
             idMap.set(id, {
               id: id,
               english_text: "(Restored Image - No Text Available)",
-              status: 'completed',
-              imageUrl: undefined
+              status: 'completed'
             });
           }
         });
@@ -208,38 +917,289 @@ const App: React.FC = () => {
   };
 
   const handleDeleteImage = async (id: string) => {
-    if (!window.confirm('Are you sure you want to delete this image?')) return;
+    if (!window.confirm('Are you sure you want to delete this image? It stays available in the version history.')) return;
     try {
+      await archiveUnversionedImage(id);
       await deleteImage(id);
-      setSentences(prev => prev.map(s => s.id === id ? { ...s, imageUrl: undefined, status: 'pending' } : s));
+      await deleteImageMeta(id);
+      setImageMeta(prev => {
+        const { [id]: _, ...rest } = prev;
+        return rest;
+      });
+      setStyleReferenceIds(prev => prev.filter(refId => refId !== id));
+      setSentences(prev => prev.map(s => s.id === id ? { ...s, status: 'pending', flaggedForReview: undefined, review: undefined, stale: undefined } : s));
     } catch (error) {
       console.error('Failed to delete image:', error);
       alert('Failed to delete image.');
     }
   };
 
-  // Infinite Scroll logic
-  const handleScroll = (e: React.UIEvent<HTMLDivElement>) => {
-    const target = e.currentTarget;
-    if (target.scrollHeight - target.scrollTop <= target.clientHeight + 100) {
-      setVisibleCount(prev => Math.min(prev + 20, sentences.length));
+  const handleEditDraftChange = (id: string, draft: SentenceEdit | null) => {
+    if (draft) editDraftsRef.current.set(id, draft);
+    else editDraftsRef.current.delete(id);
+  };
+
+  const handleEditSentence = (id: string, edit: SentenceEdit) => {
+    setSentences(prev => prev.map(s => s.id === id ? editSentence(s, edit, promptFields) : s));
+    if (id === newSentenceId) setNewSentenceId(null);
+  };
+
+  const handleCancelEdit = (id: string) => {
+    if (id !== newSentenceId) return;
+    setSentences(prev => prev.filter(s => s.id !== id));
+    setNewSentenceId(null);
+  };
+
+  // Appends a blank row in edit mode, clearing filters so it is on screen
+  const handleAddSentence = () => {
+    if (newSentenceId) return;
+    const id = nextSentenceId(sentences);
+    setSentences(prev => [...prev, { id, english_text: '', status: 'pending' }]);
+    setNewSentenceId(id);
+    clearListQuery();
+    setViewMode('table');
+    setActiveTab('manage');
+  };
+
+  const handleDeleteSentence = async (id: string) => {
+    if (status !== GenerationStatus.IDLE) {
+      alert("Wait for the current batch to finish before deleting sentences.");
+      return;
+    }
+    if (!window.confirm(`Delete sentence ${id} with its images and version history? This cannot be undone.`)) return;
+    try {
+      await deleteSentenceImages(id);
+      setImageMeta(prev => {
+        const { [id]: _, ...rest } = prev;
+        return rest;
+      });
+      setStyleReferenceIds(prev => prev.filter(refId => refId !== id));
+      setSentences(prev => prev.filter(s => s.id !== id));
+      editDraftsRef.current.delete(id);
+    } catch (error) {
+      console.error('Failed to delete sentence:', error);
+      alert('Failed to delete sentence.');
     }
   };
 
-  const filteredSentences = sentences.filter(s => 
-    s.english_text.toLowerCase().includes(searchTerm.toLowerCase()) || 
-    s.id.toLowerCase().includes(searchTerm.toLowerCase())
+  // Swaps with the neighbour on screen, so filters and grouping move rows the way they look
+  const handleMoveSentence = (id: string, offset: -1 | 1) => {
+    const index = displayedSentences.findIndex(s => s.id === id);
+    const target = displayedSentences[index + offset];
+    if (index === -1 || !target) return;
+    setSentences(prev => moveSentence(prev, id, target.id));
+  };
+
+  useEffect(() => {
+    if (listQuery.generated === 'any' || listQuery.generated === 'range') return;
+    setClock(Date.now());
+    const timer = setInterval(() => setClock(Date.now()), 60 * 1000);
+    return () => clearInterval(timer);
+  }, [listQuery.generated]);
+
+  const updateListQuery = (patch: Partial<ListQuery>) => {
+    setListQuery(prev => ({ ...prev, ...patch }));
+    setActiveViewId(null);
+  };
+
+  const clearListQuery = () => {
+    setListQuery(DEFAULT_LIST_QUERY);
+    setActiveViewId(null);
+  };
+
+  // Older saved views are read over the defaults so later query options get sane values
+  const applyView = (id: string) => {
+    const view = savedViews.find(v => v.id === id);
+    setListQuery(view ? { ...DEFAULT_LIST_QUERY, ...view.query } : DEFAULT_LIST_QUERY);
+    setActiveViewId(view ? view.id : null);
+  };
+
+  const handleSaveView = () => {
+    const name = window.prompt('Name this view, e.g. "Unit 5 failed":', activeView?.name || '')?.trim();
+    if (!name) return;
+    const existing = savedViews.find(v => v.name === name);
+    if (existing && existing.id !== activeViewId && !window.confirm(`Replace the saved view "${name}"?`)) return;
+    const view: SavedView = { id: existing?.id || crypto.randomUUID(), name, query: listQuery };
+    setSavedViews(prev => existing ? prev.map(v => v.id === existing.id ? view : v) : [...prev, view]);
+    setActiveViewId(view.id);
+  };
+
+  const handleDeleteView = (id: string) => {
+    const view = savedViews.find(v => v.id === id);
+    if (!view || !window.confirm(`Delete the saved view "${view.name}"? The sentences are not affected.`)) return;
+    setSavedViews(prev => prev.filter(v => v.id !== id));
+    if (activeViewId === id) setActiveViewId(null);
+    if (exportScope === `view:${id}`) setExportScope('all');
+  };
+
+  // Sentence ids the ZIP export is limited to, or null for every image
+  const getExportIds = (): Set<string> | null => {
+    switch (exportScope) {
+      case 'all': return null;
+      case 'approved': return new Set(sentences.filter(s => s.review === 'approved').map(s => s.id));
+      case 'shown': return new Set(filteredSentences.map(s => s.id));
+      default: {
+        const view = savedViews.find(v => `view:${v.id}` === exportScope);
+        const matched = view ? filterSentences(sentences, { ...DEFAULT_LIST_QUERY, ...view.query }, { imageMeta, fields, now: Date.now() }) : [];
+        return new Set(matched.map(s => s.id));
+      }
+    }
+  };
+
+  const fields = useMemo(() => completeFieldDefinitions(fieldDefinitions, sentences), [fieldDefinitions, sentences]);
+  const visibleFields = fields.filter(f => f.visible);
+  const filterField = fields.find(f => f.name === listQuery.field?.name);
+  const filterValues = useMemo(() => filterField ? getDistinctFieldValues(sentences, filterField) : [], [filterField, sentences]);
+  // Tags can't be grouped: a sentence would sit in several groups at once
+  const groupField = fields.find(f => f.name === groupBy && f.type !== 'tags');
+
+  // One pass per change of the list rather than one filter per counter on every render
+  const { completedCount, failedCount, flaggedCount, uncheckedCount, unreviewedCount, approvedCount, rejectedCount, regenerateCount, staleCount, draftPromptCount } = useMemo(() => {
+    const counts = { completedCount: 0, failedCount: 0, flaggedCount: 0, uncheckedCount: 0, unreviewedCount: 0, approvedCount: 0, rejectedCount: 0, regenerateCount: 0, staleCount: 0, draftPromptCount: 0 };
+    for (const s of sentences) {
+      if (s.status === 'completed') {
+        counts.completedCount++;
+        if (!imageMeta[s.id]?.quality) counts.uncheckedCount++;
+      }
+      if (s.status === 'error') counts.failedCount++;
+      if (s.flaggedForReview) counts.flaggedCount++;
+      if (isUnreviewed(s)) counts.unreviewedCount++;
+      if (s.review === 'approved') counts.approvedCount++;
+      if (s.review === 'rejected') counts.rejectedCount++;
+      if (s.review === 'needs_regeneration') counts.regenerateCount++;
+      if (s.stale) counts.staleCount++;
+      if (s.visualPromptStatus === 'draft') counts.draftPromptCount++;
+    }
+    return counts;
+  }, [sentences, imageMeta]);
+
+  // Filtered, then sorted; grouping below keeps this order within each group
+  const filteredSentences = useMemo(
+    () => sortSentences(filterSentences(sentences, listQuery, { imageMeta, fields, now: clock }), listQuery, imageMeta),
+    [sentences, listQuery, imageMeta, fields, clock]
   );
+  const searchError = useMemo(() => createSearchMatcher(listQuery.search, listQuery.searchMode).error, [listQuery.search, listQuery.searchMode]);
+  const activeView = savedViews.find(v => v.id === activeViewId);
+
+  // Stable sort keeps the chosen order within each group; group headings become rows of their own
+  const { displayedSentences, tableRows } = useMemo(() => {
+    if (!groupField) {
+      return { displayedSentences: filteredSentences, tableRows: filteredSentences.map((sentence): TableRow => ({ kind: 'sentence', sentence })) };
+    }
+    const groupValue = (s: EnglishSentence) => (s.fields?.[groupField.name] || '').trim();
+    const sorted = [...filteredSentences].sort((a, b) => compareFieldValues(groupValue(a), groupValue(b), groupField.type));
+    const rows: TableRow[] = [];
+    let group: TableRow & { kind: 'group' } | null = null;
+    for (const sentence of sorted) {
+      const value = groupValue(sentence);
+      if (!group || group.value !== value) {
+        group = { kind: 'group', value, members: [] };
+        rows.push(group);
+      }
+      group.members.push(sentence);
+      rows.push({ kind: 'sentence', sentence });
+    }
+    return { displayedSentences: sorted, tableRows: rows };
+  }, [filteredSentences, groupField]);
+
+  const activeProject = projects.find(p => p.id === activeProjectId);
+  // Fields whose edits reach the image prompt
+  const promptFields = useMemo(() => getPlaceholders(promptTemplate.body), [promptTemplate.body]);
+  const resolveCharacters = useMemo(() => createCharacterResolver(characters, pronounPins, sentences), [characters, pronounPins, sentences]);
+
+  // Steps through what the list currently shows, quality-flagged images first
+  const openReviewMode = () => {
+    const targets = displayedSentences.filter(isUnreviewed);
+    setReviewQueue([...targets.filter(s => s.flaggedForReview), ...targets.filter(s => !s.flaggedForReview)].map(s => s.id));
+  };
 
   return (
-    <Layout>
-      {previewImage && (
+    <Layout
+      projectSwitcher={projects.length > 0 && (
+        <ProjectSwitcher
+          projects={projects}
+          activeProjectId={activeProjectId}
+          onSwitch={switchProject}
+          onCreate={handleCreateProject}
+          onRename={handleRenameProject}
+          onDelete={handleDeleteProject}
+          disabled={status !== GenerationStatus.IDLE && schedulerRef.current !== null}
+        />
+      )}
+    >
+      {previewId && (
         <ImagePreviewModal 
-          imageUrl={previewImage.url} 
-          id={previewImage.id} 
-          onClose={() => setPreviewImage(null)} 
+          id={previewId} 
+          imageVersion={imageMeta[previewId]?.variantId}
+          onSelectVariant={handleSelectVariant}
+          onClose={() => setPreviewId(null)} 
+        />
+      )}
+      {csvImport && (
+        <CsvImportDialog
+          fileName={csvImport.fileName}
+          table={csvImport.table}
+          current={sentences}
+          fieldDefinitions={fields}
+          promptFields={promptFields}
+          onImport={handleCsvImport}
+          onClose={() => setCsvImport(null)}
+        />
+      )}
+      {reviewQueue && (
+        <ReviewMode
+          ids={reviewQueue}
+          sentences={sentences}
+          imageMeta={imageMeta}
+          onReview={handleReview}
+          onClose={() => setReviewQueue(null)}
+        />
+      )}
+      {isTemplateEditorOpen && (
+        <PromptTemplateEditor
+          template={promptTemplate}
+          sentences={sentences}
+          styleDescription={styleDescription}
+          useScene={twoStage}
+          describeCharacters={(s) => describeCharacters(resolveCharacters(s))}
+          onSave={handleSaveTemplate}
+          onClose={() => setIsTemplateEditorOpen(false)}
+        />
+      )}
+      {isApiSettingsOpen && (
+        <ApiSettingsModal
+          settings={geminiSettings}
+          onSave={handleSaveApiSettings}
+          onClose={() => setIsApiSettingsOpen(false)}
+        />
+      )}
+      {isCharacterBibleOpen && (
+        <CharacterBible
+          characters={characters}
+          pronounPins={pronounPins}
+          onSave={handleSaveCharacters}
+          onClose={() => setIsCharacterBibleOpen(false)}
+          referencesSupported={supportsReferenceImages(providerConfig)}
         />
       )}
+      {upgradeProgress !== null && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm">
+          <div className="bg-white p-8 rounded-2xl shadow-2xl max-w-sm w-full flex flex-col items-center gap-4">
+            <div className="w-12 h-12 border-4 border-indigo-200 border-t-indigo-600 rounded-full animate-spin" />
+            <div className="text-center">
+              <h3 className="text-lg font-bold text-slate-800">Upgrading Image Storage</h3>
+              <p className="text-slate-500 text-sm mt-1">Converting saved images. This only happens once.</p>
+            </div>
+            <div className="w-full bg-slate-100 rounded-full h-2 overflow-hidden mt-2">
+              <div 
+                className="bg-indigo-600 h-full transition-all duration-300"
+                style={{ width: `${upgradeProgress}%` }}
+              />
+            </div>
+            <span className="text-xs font-bold text-indigo-600">{upgradeProgress}%</span>
+          </div>
+        </div>
+      )}
       {exportProgress !== null && (
         <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm">
           <div className="bg-white p-8 rounded-2xl shadow-2xl max-w-sm w-full flex flex-col items-center gap-4">
@@ -279,27 +1239,91 @@ const App: React.FC = () => {
                   onChange={(e) => setBatchSize(Math.min(2000, Math.max(1, Number(e.target.value))))}
                 />
               </div>
+              <div className="flex flex-col">
+                <label className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-1" title="Images generated per sentence to choose from">Candidates</label>
+                <input 
+                  type="number"
+                  min="1"
+                  max={MAX_CANDIDATES}
+                  className="bg-slate-100 border-none rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-indigo-500 w-20"
+                  value={candidateCount}
+                  onChange={(e) => setCandidateCount(Math.min(MAX_CANDIDATES, Math.max(1, Number(e.target.value))))}
+                />
+              </div>
+              <div className="flex flex-col">
+                <label className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-1">Parallel</label>
+                <input 
+                  type="number"
+                  min="1"
+                  max="16"
+                  disabled={status === GenerationStatus.RUNNING}
+                  className="bg-slate-100 border-none rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-indigo-500 w-20 disabled:opacity-50"
+                  value={schedulerOptions.concurrency}
+                  onChange={(e) => setSchedulerOptions(prev => ({ ...prev, concurrency: Math.min(16, Math.max(1, Number(e.target.value))) }))}
+                />
+              </div>
+              <div className="flex flex-col">
+                <label className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-1">Req / Min</label>
+                <input 
+                  type="number"
+                  min="1"
+                  max="600"
+                  disabled={status === GenerationStatus.RUNNING}
+                  className="bg-slate-100 border-none rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-indigo-500 w-20 disabled:opacity-50"
+                  value={schedulerOptions.requestsPerMinute}
+                  onChange={(e) => setSchedulerOptions(prev => ({ ...prev, requestsPerMinute: Math.min(600, Math.max(1, Number(e.target.value))) }))}
+                />
+              </div>
 
-              <button
-                onClick={startBatch}
-                disabled={status === GenerationStatus.RUNNING || sentences.length === 0}
-                className={`px-6 py-3 rounded-xl font-semibold shadow-lg shadow-indigo-100 transition-all active:scale-95 flex items-center gap-2 ${status === GenerationStatus.RUNNING 
-                  ? 'bg-slate-200 text-slate-400 cursor-not-allowed' 
-                  : 'bg-indigo-600 text-white hover:bg-indigo-700'
-                }`}
-              >
-                {status === GenerationStatus.RUNNING ? (
-                  <>
-                    <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin" />
-                    Processing...
-                  </>
-                ) : (
-                  <>
-                    <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M13 10V3L4 14h7v7l9-11h-7z" /></svg>
-                    Start Batch
-                  </>
-                )}
-              </button>
+              {status === GenerationStatus.IDLE && twoStage && (
+                <button
+                  onClick={startPromptStage}
+                  disabled={sentences.length === 0}
+                  title="Draft a scene prompt for each sentence without one"
+                  className="px-4 py-3 rounded-xl font-semibold bg-white border border-indigo-200 text-indigo-600 hover:bg-indigo-50 transition-all active:scale-95 flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" /></svg>
+                  Write Prompts
+                </button>
+              )}
+
+              {status === GenerationStatus.IDLE ? (
+                <button
+                  onClick={() => startBatch()}
+                  disabled={!sentences.some(hasSentenceText)}
+                  className="px-6 py-3 rounded-xl font-semibold shadow-lg shadow-indigo-100 transition-all active:scale-95 flex items-center gap-2 bg-indigo-600 text-white hover:bg-indigo-700 disabled:bg-slate-200 disabled:text-slate-400 disabled:cursor-not-allowed"
+                >
+                  <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M13 10V3L4 14h7v7l9-11h-7z" /></svg>
+                  Start Batch
+                </button>
+              ) : (
+                <div className="flex items-center gap-2">
+                  {status === GenerationStatus.RUNNING ? (
+                    <button
+                      onClick={handlePauseQueue}
+                      className="px-6 py-3 rounded-xl font-semibold shadow-lg shadow-indigo-100 transition-all active:scale-95 flex items-center gap-2 bg-indigo-600 text-white hover:bg-indigo-700"
+                    >
+                      <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin" />
+                      Pause
+                    </button>
+                  ) : (
+                    <button
+                      onClick={handleResumeQueue}
+                      className="px-6 py-3 rounded-xl font-semibold shadow-lg shadow-amber-100 transition-all active:scale-95 flex items-center gap-2 bg-amber-500 text-white hover:bg-amber-600"
+                    >
+                      <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M14.752 11.168l-3.197-2.132A1 1 0 0010 9.87v4.263a1 1 0 001.555.832l3.197-2.132a1 1 0 000-1.664z" /><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M21 12a9 9 0 11-18 0 9 9 0 0118 0z" /></svg>
+                      Resume
+                    </button>
+                  )}
+                  <button
+                    onClick={handleCancelQueue}
+                    title="Cancel Batch"
+                    className="px-4 py-3 rounded-xl font-semibold bg-white border border-slate-200 text-red-600 hover:bg-red-50 transition-all"
+                  >
+                    Cancel
+                  </button>
+                </div>
+              )}
 
               <div className="flex items-center gap-2">
                 <button
@@ -310,6 +1334,17 @@ const App: React.FC = () => {
                   <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" /></svg>
                   ZIP
                 </button>
+                <select
+                  className="bg-white border border-slate-200 rounded-lg px-2 py-2 text-xs font-medium text-slate-500 focus:ring-2 focus:ring-indigo-500 outline-none"
+                  value={exportScope}
+                  onChange={(e) => setExportScope(e.target.value as ExportScope)}
+                  title="Which images the ZIP contains"
+                >
+                  <option value="all">All images</option>
+                  <option value="approved">Approved only</option>
+                  <option value="shown">Shown in list</option>
+                  {savedViews.map(v => <option key={v.id} value={`view:${v.id}`}>View: {v.name}</option>)}
+                </select>
                 <button
                   onClick={handleBackupExport}
                   title="Export All Data as Single File"
@@ -326,6 +1361,25 @@ const App: React.FC = () => {
                               </div>
                             </div>
                           </div>
+                          {batchStats && (
+                            <BatchProgress stats={batchStats} onResume={handleResumeQueue} />
+                          )}
+                          {!batchStats && queuedJobCount > 0 && (
+                            <p className="mt-4 text-sm font-medium text-amber-600">
+                              Batch paused with {queuedJobCount} sentences still queued. Resume to continue or cancel to discard.
+                            </p>
+                          )}
+                          {providerConfig.type === 'gemini' && !geminiSettings.apiKey && (
+                            <div className="mt-4 flex flex-wrap items-center justify-between gap-2 p-3 rounded-xl bg-amber-50 text-sm text-amber-700">
+                              <span>Add your Gemini API key to start generating, or switch to the Mock provider to try the app offline.</span>
+                              <button
+                                onClick={() => setIsApiSettingsOpen(true)}
+                                className="px-3 py-1 rounded-lg text-xs font-semibold bg-amber-100 hover:bg-amber-200 transition-colors"
+                              >
+                                Open API Settings
+                              </button>
+                            </div>
+                          )}
                         </section>
           {/* Main Interface */}
           <div className="grid grid-cols-1 lg:grid-cols-4 gap-8">
@@ -339,14 +1393,17 @@ const App: React.FC = () => {
                 
                 <div className="space-y-4">
                   <div>
-                    <label className="block text-xs font-semibold text-slate-400 mb-2 uppercase">CSV Data (jh-data.csv)</label>
-                    <label className="flex items-center justify-center w-full h-24 px-4 transition bg-white border-2 border-slate-200 border-dashed rounded-xl appearance-none cursor-pointer hover:border-indigo-400 focus:outline-none">
+                    <label className="block text-xs font-semibold text-slate-400 mb-2 uppercase">CSV / TSV Data (jh-data.csv)</label>
+                    <label
+                      className={`flex items-center justify-center w-full h-24 px-4 transition bg-white border-2 border-slate-200 border-dashed rounded-xl appearance-none focus:outline-none ${status === GenerationStatus.IDLE ? 'cursor-pointer hover:border-indigo-400' : 'cursor-not-allowed opacity-50'}`}
+                      title={status === GenerationStatus.IDLE ? undefined : 'Stop the running batch to import a CSV'}
+                    >
                       <span className="flex items-center space-x-2">
                         <span className="font-medium text-slate-600">
                           {sentences.length > 0 ? `${sentences.length} Sentences Loaded` : 'Upload CSV'}
                         </span>
                       </span>
-                      <input type="file" name="csv_upload" className="hidden" accept=".csv" onChange={handleCsvUpload} />
+                      <input type="file" name="csv_upload" className="hidden" accept=".csv,.tsv,.txt" onChange={handleCsvUpload} disabled={status !== GenerationStatus.IDLE} />
                     </label>
                   </div>
 
@@ -359,9 +1416,94 @@ const App: React.FC = () => {
                       onChange={(e) => setStyleDescription(e.target.value)}
                     />
                   </div>
+
+                  <div>
+                    <label className="block text-xs font-semibold text-slate-400 mb-2 uppercase">Prompt Template</label>
+                    <button
+                      onClick={() => setIsTemplateEditorOpen(true)}
+                      className="w-full px-4 py-2 rounded-xl text-sm font-semibold bg-white border border-slate-200 hover:bg-slate-50 transition-all flex items-center justify-between"
+                    >
+                      <span>Edit Template</span>
+                      <span className="text-xs font-mono text-slate-400">v{promptTemplate.version}</span>
+                    </button>
+                  </div>
+
+                  <div>
+                    <label className="block text-xs font-semibold text-slate-400 mb-2 uppercase">Characters</label>
+                    <button
+                      onClick={() => setIsCharacterBibleOpen(true)}
+                      className="w-full px-4 py-2 rounded-xl text-sm font-semibold bg-white border border-slate-200 hover:bg-slate-50 transition-all flex items-center justify-between"
+                    >
+                      <span>Character Bible</span>
+                      <span className="text-xs font-mono text-slate-400">{characters.length}</span>
+                    </button>
+                  </div>
+
+                  <div>
+                    <label className="flex items-center gap-2 text-sm font-medium text-slate-600 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        className="rounded text-indigo-600 focus:ring-indigo-500"
+                        checked={twoStage}
+                        disabled={status !== GenerationStatus.IDLE}
+                        onChange={(e) => setTwoStage(e.target.checked)}
+                      />
+                      Two-stage generation
+                    </label>
+                    <p className="text-xs text-slate-400 mt-1">Write and review a scene prompt for each sentence before generating its image.</p>
+                    {twoStage && draftPromptCount > 0 && (
+                      <button
+                        onClick={handleApproveAllVisualPrompts}
+                        className="mt-2 w-full px-3 py-2 rounded-lg text-xs font-semibold bg-amber-50 text-amber-700 hover:bg-amber-100 transition-colors"
+                      >
+                        Approve all {draftPromptCount} draft prompts
+                      </button>
+                    )}
+                  </div>
+
+                  <div>
+                    <label className="block text-xs font-semibold text-slate-400 mb-2 uppercase">Versions kept per sentence</label>
+                    <input
+                      type="number"
+                      min="1"
+                      max="100"
+                      className="w-full px-4 py-2 bg-white border border-slate-200 rounded-xl text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+                      value={historyLimit}
+                      onChange={(e) => setHistoryLimit(Math.min(100, Math.max(1, Number(e.target.value))))}
+                    />
+                    <p className="text-xs text-slate-400 mt-1">Older versions beyond this are removed the next time the sentence is generated.</p>
+                  </div>
                 </div>
               </div>
 
+              <ProviderSettings
+                config={providerConfig}
+                onChange={setProviderConfig}
+                disabled={status === GenerationStatus.RUNNING}
+                hasGeminiKey={!!geminiSettings.apiKey}
+                onOpenApiSettings={() => setIsApiSettingsOpen(true)}
+              />
+
+              {fields.length > 0 && (
+                <FieldSettings fields={fields} onChange={setFieldDefinitions} />
+              )}
+
+              <QualityCheckSettings
+                settings={qualityCheck}
+                onChange={setQualityCheck}
+                uncheckedCount={uncheckedCount}
+                onCheckExisting={startQualityStage}
+                disabled={status !== GenerationStatus.IDLE}
+              />
+
+              <StyleReferenceGallery
+                ids={styleReferenceIds}
+                version={dataVersion}
+                onRemove={handleToggleStyleReference}
+                onView={setPreviewId}
+                supported={supportsReferenceImages(providerConfig)}
+              />
+
               <div className="glass-card p-6 rounded-2xl border border-slate-200 h-fit">
                  <h3 className="font-bold mb-3">Stats</h3>
                  <div className="space-y-3">
@@ -371,68 +1513,317 @@ const App: React.FC = () => {
                    </div>
                    <div className="flex justify-between text-sm">
                      <span className="text-slate-500">Generated</span>
-                     <span className="font-bold text-green-600">{sentences.filter(s => s.status === 'completed').length}</span>
+                     <span className="font-bold text-green-600">{completedCount}</span>
+                   </div>
+                   <div className="flex justify-between text-sm">
+                     <span className="text-slate-500">Approved</span>
+                     <span className="font-bold text-indigo-600">{approvedCount}</span>
                    </div>
                    <div className="w-full bg-slate-100 rounded-full h-1.5 overflow-hidden">
                      <div 
                        className="bg-indigo-600 h-full transition-all duration-500"
-                       style={{ width: `${(sentences.filter(s => s.status === 'completed').length / (sentences.length || 1)) * 100}%` }}
+                       style={{ width: `${(completedCount / (sentences.length || 1)) * 100}%` }}
                       />
                    </div>
                  </div>
               </div>
+
+              <UsageDashboard
+                records={usageRecords}
+                projects={projects}
+                settings={usageSettings}
+                onSettingsChange={handleUsageSettingsChange}
+                onClear={handleClearUsage}
+              />
             </aside>
 
           {/* Grid Area */}
           <div className="lg:col-span-3 space-y-4">
-            <div className="flex items-center justify-between">
-               <div className="relative w-full max-w-md">
-                 <svg className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" /></svg>
-                 <input 
-                  type="text" 
-                  placeholder="Search ID or Text..." 
-                  className="w-full bg-white border border-slate-200 rounded-xl pl-10 pr-4 py-2 text-sm focus:ring-2 focus:ring-indigo-500 outline-none transition-all"
-                  value={searchTerm}
-                  onChange={(e) => setSearchTerm(e.target.value)}
-                 />
+            <div className="flex items-center justify-between gap-4">
+               <div className="flex items-center gap-2 w-full max-w-md">
+                 <div className="relative flex-1">
+                   <svg className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" /></svg>
+                   <input 
+                    type="text" 
+                    placeholder="Search ID, text, prompt or model..." 
+                    className={`w-full bg-white border rounded-xl pl-10 pr-4 py-2 text-sm focus:ring-2 focus:ring-indigo-500 outline-none transition-all ${searchError ? 'border-red-400' : 'border-slate-200'}`}
+                    value={listQuery.search}
+                    onChange={(e) => updateListQuery({ search: e.target.value })}
+                    title={searchError ? `Invalid regex, ignored: ${searchError}` : undefined}
+                   />
+                 </div>
+                 <select
+                   className="bg-white border border-slate-200 rounded-lg px-2 py-2 text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+                   value={listQuery.searchMode}
+                   onChange={(e) => updateListQuery({ searchMode: e.target.value as SearchMode })}
+                   title="How the search text is matched"
+                 >
+                   {Object.entries(SEARCH_MODE_LABELS).map(([mode, label]) => <option key={mode} value={mode}>{label}</option>)}
+                 </select>
+               </div>
+               <div className="flex items-center gap-2">
+                 <select
+                   className="bg-white border border-slate-200 rounded-lg px-2 py-2 text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+                   value={listQuery.filter}
+                   onChange={(e) => updateListQuery({ filter: e.target.value as ListFilter })}
+                 >
+                   <option value="all">All</option>
+                   <option value="failed">Failed ({failedCount})</option>
+                   <option value="flagged">Quality flagged ({flaggedCount})</option>
+                   <option value="stale">Stale ({staleCount})</option>
+                   <option value="unreviewed">Unreviewed ({unreviewedCount})</option>
+                   <option value="approved">Approved ({approvedCount})</option>
+                   <option value="rejected">Rejected ({rejectedCount})</option>
+                   <option value="needs_regeneration">Needs regeneration ({regenerateCount})</option>
+                 </select>
+                 <button
+                   onClick={handleAddSentence}
+                   disabled={!!newSentenceId}
+                   title="Add a sentence at the end of the list"
+                   className="px-3 py-2 rounded-lg text-xs font-semibold bg-slate-100 text-slate-700 hover:bg-slate-200 transition-colors whitespace-nowrap disabled:opacity-50"
+                 >
+                   + Add
+                 </button>
+                 <button
+                   onClick={openReviewMode}
+                   disabled={!filteredSentences.some(isUnreviewed)}
+                   title="Step through unreviewed images in the list with the keyboard"
+                   className="px-3 py-2 rounded-lg text-xs font-semibold bg-indigo-50 text-indigo-700 hover:bg-indigo-100 transition-colors whitespace-nowrap disabled:opacity-50"
+                 >
+                   Review
+                 </button>
+                 {regenerateCount > 0 && (
+                   <button
+                     onClick={() => regenerateSentences(sentences.filter(s => s.review === 'needs_regeneration'))}
+                     disabled={status !== GenerationStatus.IDLE}
+                     className="px-3 py-2 rounded-lg text-xs font-semibold bg-amber-50 text-amber-700 hover:bg-amber-100 transition-colors whitespace-nowrap disabled:opacity-50"
+                   >
+                     Regenerate {regenerateCount}
+                   </button>
+                 )}
+                 {staleCount > 0 && (
+                   <button
+                     onClick={() => regenerateSentences(sentences.filter(s => s.stale))}
+                     disabled={status !== GenerationStatus.IDLE}
+                     title="Regenerate images whose sentence or prompt fields have changed"
+                     className="px-3 py-2 rounded-lg text-xs font-semibold bg-amber-50 text-amber-700 hover:bg-amber-100 transition-colors whitespace-nowrap disabled:opacity-50"
+                   >
+                     Regenerate {staleCount} stale
+                   </button>
+                 )}
+                 {failedCount > 0 && (
+                   <button
+                     onClick={handleRetryFailed}
+                     disabled={status !== GenerationStatus.IDLE}
+                     className="px-3 py-2 rounded-lg text-xs font-semibold bg-red-50 text-red-700 hover:bg-red-100 transition-colors whitespace-nowrap disabled:opacity-50"
+                   >
+                     Retry all failed
+                   </button>
+                 )}
                </div>
-               <div className="text-sm font-medium text-slate-500">
-                 Showing {Math.min(visibleCount, filteredSentences.length)} of {filteredSentences.length}
+               <div className="flex items-center gap-3 text-sm font-medium text-slate-500 whitespace-nowrap">
+                 {viewMode === 'grid' && (
+                   <input
+                     type="range"
+                     min={MIN_TILE_SIZE}
+                     max={MAX_TILE_SIZE}
+                     step={16}
+                     value={tileSize}
+                     onChange={(e) => setTileSize(Number(e.target.value))}
+                     className="w-20 accent-indigo-600"
+                     title="Tile size"
+                   />
+                 )}
+                 <div className="flex rounded-lg bg-slate-100 p-0.5">
+                   {(['table', 'grid'] as const).map(mode => (
+                     <button
+                       key={mode}
+                       onClick={() => setViewMode(mode)}
+                       className={`px-2 py-1 rounded-md text-xs font-semibold capitalize ${viewMode === mode ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+                     >
+                       {mode}
+                     </button>
+                   ))}
+                 </div>
+                 <span>Showing {filteredSentences.length} of {sentences.length}</span>
                </div>
             </div>
+            <div className="flex flex-wrap items-center gap-2">
+              <select
+                className="bg-white border border-slate-200 rounded-lg px-2 py-2 text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+                value={activeViewId || ''}
+                onChange={(e) => applyView(e.target.value)}
+                title="Saved filters, search and sort"
+              >
+                <option value="">{savedViews.length > 0 ? 'Saved views...' : 'No saved views'}</option>
+                {savedViews.map(v => <option key={v.id} value={v.id}>{v.name}</option>)}
+              </select>
+              <button
+                onClick={handleSaveView}
+                title="Save the current filters, search and sort under a name"
+                className="px-3 py-2 rounded-lg text-xs font-semibold bg-slate-100 text-slate-700 hover:bg-slate-200 transition-colors whitespace-nowrap"
+              >
+                Save view
+              </button>
+              {activeView && (
+                <button
+                  onClick={() => handleDeleteView(activeView.id)}
+                  className="px-2 py-2 rounded-lg text-xs font-semibold text-slate-500 hover:bg-slate-100"
+                  title="Delete this saved view"
+                >
+                  ×
+                </button>
+              )}
+              <button
+                onClick={() => setShowFilters(prev => !prev)}
+                className={`px-3 py-2 rounded-lg text-xs font-semibold transition-colors whitespace-nowrap ${showFilters ? 'bg-indigo-50 text-indigo-700' : 'bg-slate-100 text-slate-700 hover:bg-slate-200'}`}
+              >
+                Filters & sort
+              </button>
+              {fields.length > 0 && (
+                <select
+                  className="bg-white border border-slate-200 rounded-lg px-2 py-2 text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+                  value={listQuery.field?.name || ''}
+                  onChange={(e) => {
+                    const field = fields.find(f => f.name === e.target.value);
+                    updateListQuery({ field: field ? { name: field.name, value: getDistinctFieldValues(sentences, field)[0] || '' } : null });
+                  }}
+                >
+                  <option value="">Filter by field...</option>
+                  {fields.map(f => <option key={f.name} value={f.name}>{f.name}</option>)}
+                </select>
+              )}
+              {listQuery.field && (
+                <>
+                  <select
+                    className="bg-white border border-slate-200 rounded-lg px-2 py-2 text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+                    value={listQuery.field.value}
+                    onChange={(e) => updateListQuery({ field: { ...listQuery.field!, value: e.target.value } })}
+                  >
+                    {filterValues.map(value => <option key={value} value={value}>{value}</option>)}
+                    <option value="">(empty)</option>
+                  </select>
+                  <button
+                    onClick={() => updateListQuery({ field: null })}
+                    className="px-2 py-2 rounded-lg text-xs font-semibold text-slate-500 hover:bg-slate-100"
+                    title="Clear field filter"
+                  >
+                    ×
+                  </button>
+                </>
+              )}
+              {isFiltered(listQuery) && (
+                <button
+                  onClick={() => startBatch(filteredSentences)}
+                  disabled={status !== GenerationStatus.IDLE || !filteredSentences.some(s => s.status !== 'completed' && hasSentenceText(s))}
+                  title={`Generate the sentences shown, up to the batch size of ${batchSize}`}
+                  className="px-3 py-2 rounded-lg text-xs font-semibold bg-indigo-600 text-white hover:bg-indigo-700 transition-colors whitespace-nowrap disabled:bg-slate-200 disabled:text-slate-400"
+                >
+                  Generate {activeView ? `"${activeView.name}"` : 'shown'} only
+                </button>
+              )}
+              {fields.length > 0 && (
+                <select
+                  className="ml-auto bg-white border border-slate-200 rounded-lg px-2 py-2 text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+                  value={groupBy}
+                  onChange={(e) => setGroupBy(e.target.value)}
+                >
+                  <option value="">No grouping</option>
+                  {fields.filter(f => f.type !== 'tags').map(f => <option key={f.name} value={f.name}>Group by {f.name}</option>)}
+                </select>
+              )}
+            </div>
+            {showFilters && <ListFilterPanel query={listQuery} onChange={updateListQuery} sentences={sentences} />}
 
-            <div 
-              onScroll={handleScroll}
-              className="glass-card rounded-2xl border border-slate-200 h-[600px] overflow-y-auto custom-scroll"
-            >
-              {filteredSentences.length === 0 ? (
-                <div className="h-full flex flex-col items-center justify-center text-slate-400 gap-4">
-                  <svg className="w-16 h-16 opacity-20" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M20 13V6a2 2 0 00-2-2H6a2 2 0 00-2 2v7m16 0v5a2 2 0 01-2 2H6a2 2 0 01-2-2v-5m16 0h-2.586a1 1 0 00-.707.293l-2.414 2.414a1 1 0 01-.707.293h-3.172a1 1 0 01-.707-.293l-2.414-2.414A1 1 0 006.586 13H4" /></svg>
+            {filteredSentences.length === 0 ? (
+              <div className="glass-card rounded-2xl border border-slate-200 h-[600px] flex flex-col items-center justify-center text-slate-400 gap-4">
+                <svg className="w-16 h-16 opacity-20" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M20 13V6a2 2 0 00-2-2H6a2 2 0 00-2 2v7m16 0v5a2 2 0 01-2 2H6a2 2 0 01-2-2v-5m16 0h-2.586a1 1 0 00-.707.293l-2.414 2.414a1 1 0 01-.707.293h-3.172a1 1 0 01-.707-.293l-2.414-2.414A1 1 0 006.586 13H4" /></svg>
+                {sentences.length === 0 ? (
                   <p className="font-medium italic">No data to display. Please upload a CSV file.</p>
-                </div>
-              ) : (
-                <table className="w-full text-left border-collapse">
-                  <thead className="sticky top-0 bg-slate-50 border-b border-slate-200 z-10">
-                    <tr>
-                      <th className="px-6 py-4 text-xs font-bold text-slate-400 uppercase tracking-widest">ID</th>
-                      <th className="px-6 py-4 text-xs font-bold text-slate-400 uppercase tracking-widest">English Text</th>
-                      <th className="px-6 py-4 text-xs font-bold text-slate-400 uppercase tracking-widest">Visualization</th>
-                    </tr>
-                  </thead>
-                  <tbody className="divide-y divide-slate-100">
-                    {filteredSentences.slice(0, visibleCount).map((s) => (
-                      <SentenceItem 
-                        key={s.id} 
-                        sentence={s} 
-                        onDelete={handleDeleteImage} 
-                        onView={(id, url) => setPreviewImage({ id, url })}
-                        version={dataVersion}
-                      />
+                ) : (
+                  <>
+                    <p className="font-medium italic">No rows match the current filters.</p>
+                    <button
+                      onClick={clearListQuery}
+                      className="px-3 py-2 rounded-lg text-xs font-semibold bg-slate-100 text-slate-700 hover:bg-slate-200 transition-colors"
+                    >
+                      Clear filters
+                    </button>
+                  </>
+                )}
+              </div>
+            ) : viewMode === 'grid' ? (
+              <ImageGallery
+                sentences={displayedSentences}
+                tileSize={tileSize}
+                imageMeta={imageMeta}
+                version={dataVersion}
+                onView={setPreviewId}
+                className="glass-card rounded-2xl border border-slate-200 h-[600px] overflow-y-auto custom-scroll"
+              />
+            ) : (
+              <VirtualTable<TableRow>
+                rows={tableRows}
+                getKey={row => row.kind === 'group' ? `group:${row.value}` : row.sentence.id}
+                estimateRowHeight={ESTIMATED_ROW_HEIGHT}
+                columnCount={3 + visibleFields.length}
+                scrollToKey={newSentenceId}
+                className="glass-card rounded-2xl border border-slate-200 h-[600px] overflow-y-auto custom-scroll"
+                header={
+                  <tr>
+                    <th className="px-6 py-4 text-xs font-bold text-slate-400 uppercase tracking-widest">ID</th>
+                    <th className="px-6 py-4 text-xs font-bold text-slate-400 uppercase tracking-widest">English Text</th>
+                    {visibleFields.map(f => (
+                      <th key={f.name} className="px-4 py-4 text-xs font-bold text-slate-400 uppercase tracking-widest">{f.name}</th>
                     ))}
-                  </tbody>
-                </table>
-              )}
-            </div>
+                    <th className="px-6 py-4 text-xs font-bold text-slate-400 uppercase tracking-widest">Visualization</th>
+                  </tr>
+                }
+                renderRow={(row, measureRef) => row.kind === 'group' ? (
+                  <tr ref={measureRef} className="bg-slate-50">
+                    <td colSpan={3 + visibleFields.length} className="px-6 py-2">
+                      <div className="flex items-center gap-3 text-xs">
+                        <span className="font-bold text-slate-700">{groupField?.name}: {row.value || '(empty)'}</span>
+                        <span className="text-slate-400">{row.members.filter(g => g.status === 'completed').length} / {row.members.length} generated</span>
+                        <button
+                          onClick={() => startBatch(row.members)}
+                          disabled={status !== GenerationStatus.IDLE || !row.members.some(g => g.status !== 'completed' && hasSentenceText(g))}
+                          title={`Generate this group, up to the batch size of ${batchSize}`}
+                          className="ml-auto px-2 py-1 rounded font-semibold text-indigo-600 hover:bg-indigo-50 disabled:opacity-40"
+                        >
+                          Generate group
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ) : (
+                  <SentenceItem 
+                    sentence={row.sentence} 
+                    measureRef={measureRef}
+                    onDelete={handleDeleteImage} 
+                    onView={setPreviewId}
+                    version={dataVersion}
+                    imageVersion={imageMeta[row.sentence.id]?.variantId}
+                    showVisualPrompt={twoStage}
+                    onVisualPromptChange={handleVisualPromptChange}
+                    onApproveVisualPrompt={handleApproveVisualPrompt}
+                    isStyleReference={styleReferenceIds.includes(row.sentence.id)}
+                    onToggleStyleReference={handleToggleStyleReference}
+                    onRetryWithPrompt={handleRetryWithPrompt}
+                    quality={imageMeta[row.sentence.id]?.quality}
+                    onDismissReview={handleDismissReview}
+                    fieldColumns={visibleFields}
+                    onEdit={handleEditSentence}
+                    onCancelEdit={handleCancelEdit}
+                    onDeleteSentence={handleDeleteSentence}
+                    onMove={listQuery.sortKey === 'list' ? handleMoveSentence : undefined}
+                    startEditing={row.sentence.id === newSentenceId}
+                    draft={editDraftsRef.current.get(row.sentence.id)}
+                    onDraftChange={handleEditDraftChange}
+                  />
+                )}
+              />
+            )}
           </div>
         </div>
       </div>
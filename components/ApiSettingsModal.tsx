@@ -0,0 +1,139 @@
+import React, { useState } from 'react';
+import { GeminiSettings } from '../types';
+import { DEFAULT_GEMINI_SETTINGS } from '../services/apiSettingsService';
+import { testGeminiConnection } from '../services/geminiService';
+import { getErrorMessage } from '../services/errorService';
+
+interface ApiSettingsModalProps {
+  settings: GeminiSettings;
+  onSave: (settings: GeminiSettings) => void;
+  onClose: () => void;
+}
+
+const inputClass = "w-full px-3 py-2 bg-white border border-slate-200 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 outline-none";
+
+type TestResult = { ok: true } | { ok: false; message: string };
+
+export const ApiSettingsModal: React.FC<ApiSettingsModalProps> = ({ settings, onSave, onClose }) => {
+  const [draft, setDraft] = useState<GeminiSettings>(settings);
+  const [showKey, setShowKey] = useState(false);
+  const [isTesting, setIsTesting] = useState(false);
+  const [testResult, setTestResult] = useState<TestResult | null>(null);
+
+  const update = (patch: Partial<GeminiSettings>) => {
+    setDraft(prev => ({ ...prev, ...patch }));
+    setTestResult(null);
+  };
+
+  const handleTest = async () => {
+    setIsTesting(true);
+    setTestResult(null);
+    try {
+      await testGeminiConnection({ ...draft, apiKey: draft.apiKey.trim() });
+      setTestResult({ ok: true });
+    } catch (error) {
+      setTestResult({ ok: false, message: getErrorMessage(error) });
+    } finally {
+      setIsTesting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/80 backdrop-blur-sm p-4" onClick={onClose}>
+      <div
+        className="relative bg-white rounded-2xl overflow-hidden max-w-lg w-full max-h-[90vh] flex flex-col shadow-2xl"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-4 border-b border-slate-100">
+          <h3 className="font-bold text-lg text-slate-800">API Settings</h3>
+          <button
+            onClick={onClose}
+            className="p-2 bg-slate-100 text-slate-500 rounded-lg hover:bg-slate-200 transition-colors"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" /></svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-auto p-6 space-y-4">
+          <div>
+            <label className="block text-xs font-semibold text-slate-400 mb-1 uppercase">Gemini API Key</label>
+            <div className="flex gap-2">
+              <input
+                type={showKey ? 'text' : 'password'}
+                className={`${inputClass} font-mono`}
+                placeholder="AIza..."
+                autoComplete="off"
+                value={draft.apiKey}
+                onChange={(e) => update({ apiKey: e.target.value })}
+              />
+              <button
+                onClick={() => setShowKey(prev => !prev)}
+                className="px-3 py-2 rounded-lg text-xs font-semibold bg-slate-100 text-slate-600 hover:bg-slate-200"
+              >
+                {showKey ? 'Hide' : 'Show'}
+              </button>
+            </div>
+            <p className="text-xs text-slate-400 mt-1">
+              Get a key from <a href="https://aistudio.google.com/apikey" target="_blank" rel="noreferrer" className="text-indigo-600 hover:underline">Google AI Studio</a>.
+              It is stored only in this browser and never leaves it except in requests to Google.
+            </p>
+          </div>
+          <div>
+            <label className="block text-xs font-semibold text-slate-400 mb-1 uppercase">Text Model</label>
+            <input
+              type="text"
+              className={`${inputClass} font-mono`}
+              placeholder={DEFAULT_GEMINI_SETTINGS.textModel}
+              value={draft.textModel}
+              onChange={(e) => update({ textModel: e.target.value.trim() })}
+            />
+            <p className="text-xs text-slate-400 mt-1">Writes scene prompts in two-stage generation.</p>
+          </div>
+          <div>
+            <label className="block text-xs font-semibold text-slate-400 mb-1 uppercase">Image Model</label>
+            <input
+              type="text"
+              className={`${inputClass} font-mono`}
+              placeholder={DEFAULT_GEMINI_SETTINGS.imageModel}
+              value={draft.imageModel}
+              onChange={(e) => update({ imageModel: e.target.value.trim() })}
+            />
+          </div>
+
+          <div className="flex items-center gap-3">
+            <button
+              onClick={handleTest}
+              disabled={isTesting || !draft.apiKey.trim()}
+              className="px-4 py-2 rounded-lg text-sm font-semibold bg-slate-100 text-slate-600 hover:bg-slate-200 disabled:opacity-50"
+            >
+              {isTesting ? 'Testing...' : 'Test Connection'}
+            </button>
+            {testResult?.ok && <span className="text-sm font-medium text-green-600">Connected. Both models are available.</span>}
+          </div>
+          {testResult && !testResult.ok && (
+            <p className="text-xs text-red-600 whitespace-pre-wrap break-words">{testResult.message}</p>
+          )}
+        </div>
+
+        <div className="flex items-center justify-end gap-2 p-4 border-t border-slate-100">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 rounded-lg text-sm font-semibold bg-white border border-slate-200 hover:bg-slate-50"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onSave({
+              apiKey: draft.apiKey.trim(),
+              textModel: draft.textModel || DEFAULT_GEMINI_SETTINGS.textModel,
+              imageModel: draft.imageModel || DEFAULT_GEMINI_SETTINGS.imageModel
+            })}
+            className="px-4 py-2 rounded-lg text-sm font-semibold bg-indigo-600 text-white hover:bg-indigo-700"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,72 @@
+import React, { useEffect, useState } from 'react';
+import { SchedulerStats } from '../services/schedulerService';
+
+interface BatchProgressProps {
+  stats: SchedulerStats;
+  onResume: () => void;
+}
+
+const formatDuration = (ms: number): string => {
+  const totalSeconds = Math.max(0, Math.round(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  if (minutes > 0) return `${minutes}m ${seconds}s`;
+  return `${seconds}s`;
+};
+
+export const BatchProgress: React.FC<BatchProgressProps> = ({ stats, onResume }) => {
+  const [now, setNow] = useState(Date.now());
+
+  // Tick so the pause countdown stays current between scheduler events
+  useEffect(() => {
+    if (stats.pausedUntil === null) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [stats.pausedUntil]);
+
+  const done = stats.completed + stats.failed;
+  const percent = stats.total > 0 ? Math.round((done / stats.total) * 100) : 0;
+  const isPaused = stats.pausedUntil !== null && stats.pausedUntil > now;
+
+  return (
+    <div className="w-full mt-4 space-y-2">
+      <div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+        <div className="flex items-center gap-4 text-slate-600">
+          <span className="font-bold text-slate-800">{done} / {stats.total}</span>
+          {stats.failed > 0 && <span className="text-red-600">{stats.failed} failed</span>}
+          <span>{stats.inFlight} active</span>
+          <span>{stats.throughputPerMinute.toFixed(1)} / min</span>
+          <span>ETA {stats.etaMs !== null ? formatDuration(stats.etaMs) : '--'}</span>
+        </div>
+        {isPaused && stats.pauseReason === 'manual' && (
+          <span className="text-xs font-bold text-amber-600 uppercase">Paused</span>
+        )}
+        {isPaused && stats.pauseReason !== 'manual' && (
+          <div className="flex items-center gap-2">
+            <span className="text-xs font-bold text-amber-600 uppercase">
+              {stats.pauseReason === 'quota'
+                ? 'Paused: quota exhausted'
+                : stats.pauseReason === 'budget'
+                  ? 'Paused: budget cap reached'
+                  : `Rate limited: resuming in ${formatDuration((stats.pausedUntil as number) - now)}`}
+            </span>
+            <button
+              onClick={onResume}
+              className="px-3 py-1 rounded-lg text-xs font-semibold bg-amber-100 text-amber-700 hover:bg-amber-200 transition-colors"
+            >
+              Resume now
+            </button>
+          </div>
+        )}
+      </div>
+      <div className="w-full bg-slate-100 rounded-full h-2 overflow-hidden">
+        <div
+          className={`h-full transition-all duration-300 ${isPaused ? 'bg-amber-500' : 'bg-indigo-600'}`}
+          style={{ width: `${percent}%` }}
+        />
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,25 @@
+import React, { useEffect, useState } from 'react';
+
+// An object URL keeps its Blob in memory until revoked, so each one is released with its component
+export const useObjectUrl = (blob: Blob | null | undefined): string | undefined => {
+  const [url, setUrl] = useState<string>();
+
+  useEffect(() => {
+    if (!blob) {
+      setUrl(undefined);
+      return;
+    }
+    const objectUrl = URL.createObjectURL(blob);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [blob]);
+
+  return url;
+};
+
+type BlobImageProps = Omit<React.ImgHTMLAttributes<HTMLImageElement>, 'src'> & { blob: Blob };
+
+export const BlobImage: React.FC<BlobImageProps> = ({ blob, alt, ...props }) => {
+  const url = useObjectUrl(blob);
+  return url ? <img src={url} alt={alt} {...props} /> : null;
+};
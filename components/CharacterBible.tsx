@@ -0,0 +1,246 @@
+import React, { useState } from 'react';
+import { Character, PronounPin } from '../types';
+import { PRONOUN_FORMS } from '../services/characterService';
+
+interface CharacterBibleProps {
+  characters: Character[];
+  pronounPins: PronounPin[];
+  onSave: (characters: Character[], pronounPins: PronounPin[]) => void;
+  onClose: () => void;
+  // False when the active provider can't take image inputs
+  referencesSupported: boolean;
+}
+
+const REFERENCE_MAX_SIZE = 512;
+
+const inputClass = "w-full px-3 py-2 bg-white border border-slate-200 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 outline-none";
+
+// Downscale uploads so reference images stay small in storage and in every request
+const readReferenceImage = (file: File): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const img = new Image();
+    img.onload = () => {
+      const scale = Math.min(1, REFERENCE_MAX_SIZE / Math.max(img.width, img.height));
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(img.width * scale);
+      canvas.height = Math.round(img.height * scale);
+      canvas.getContext('2d')?.drawImage(img, 0, 0, canvas.width, canvas.height);
+      URL.revokeObjectURL(url);
+      resolve(canvas.toDataURL('image/png'));
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error("Could not read image file."));
+    };
+    img.src = url;
+  });
+};
+
+export const CharacterBible: React.FC<CharacterBibleProps> = ({ characters: initialCharacters, pronounPins: initialPins, onSave, onClose, referencesSupported }) => {
+  const [characters, setCharacters] = useState<Character[]>(initialCharacters);
+  const [pronounPins, setPronounPins] = useState<PronounPin[]>(initialPins);
+
+  const updateCharacter = (id: string, patch: Partial<Character>) => {
+    setCharacters(prev => prev.map(c => c.id === id ? { ...c, ...patch } : c));
+  };
+
+  const updatePin = (id: string, patch: Partial<PronounPin>) => {
+    setPronounPins(prev => prev.map(p => p.id === id ? { ...p, ...patch } : p));
+  };
+
+  const addCharacter = () => {
+    setCharacters(prev => [...prev, { id: crypto.randomUUID(), name: '', aliases: [], appearance: '' }]);
+  };
+
+  const removeCharacter = (id: string) => {
+    setCharacters(prev => prev.filter(c => c.id !== id));
+    setPronounPins(prev => prev.filter(p => p.characterId !== id));
+  };
+
+  const addPin = () => {
+    if (characters.length === 0) return;
+    setPronounPins(prev => [...prev, { id: crypto.randomUUID(), pronoun: 'he', characterId: characters[0].id }]);
+  };
+
+  const handleReferenceUpload = async (id: string, e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    try {
+      updateCharacter(id, { referenceImage: await readReferenceImage(file) });
+    } catch (error) {
+      console.error("Failed to load reference image:", error);
+      alert("Failed to load reference image.");
+    } finally {
+      e.target.value = '';
+    }
+  };
+
+  const handleSave = () => {
+    const named = characters
+      .map(c => ({ ...c, name: c.name.trim(), aliases: c.aliases.map(a => a.trim()).filter(Boolean) }))
+      .filter(c => c.name);
+    const ids = new Set(named.map(c => c.id));
+    onSave(named, pronounPins.filter(p => ids.has(p.characterId)));
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/80 backdrop-blur-sm p-4" onClick={onClose}>
+      <div
+        className="relative bg-white rounded-2xl overflow-hidden max-w-4xl w-full max-h-[90vh] flex flex-col shadow-2xl"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-4 border-b border-slate-100">
+          <h3 className="font-bold text-lg text-slate-800">Character Bible</h3>
+          <button
+            onClick={onClose}
+            className="p-2 bg-slate-100 text-slate-500 rounded-lg hover:bg-slate-200 transition-colors"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" /></svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-auto p-6 space-y-8">
+          <section className="space-y-4">
+            <p className="text-sm text-slate-500">
+              Characters named in a sentence (or by one of their aliases) are described in the <code className="font-mono">{'{{characters}}'}</code> placeholder, and their reference image is sent with the request.
+            </p>
+            {!referencesSupported && (
+              <p className="text-sm p-3 rounded-xl bg-amber-50 text-amber-700">
+                The current image provider can't take image inputs, so reference images are not sent. Descriptions still reach the prompt.
+              </p>
+            )}
+            {characters.map(character => (
+              <div key={character.id} className="flex gap-4 p-4 border border-slate-200 rounded-xl">
+                <label className="relative w-20 h-20 shrink-0 rounded-lg border-2 border-dashed border-slate-200 bg-slate-50 flex items-center justify-center cursor-pointer overflow-hidden hover:border-indigo-400" title="Upload reference image">
+                  {character.referenceImage ? (
+                    <img src={character.referenceImage} alt={character.name} className="w-full h-full object-cover" />
+                  ) : (
+                    <span className="text-[10px] font-bold text-slate-400 uppercase text-center">Ref image</span>
+                  )}
+                  <input type="file" accept="image/*" className="hidden" onChange={(e) => handleReferenceUpload(character.id, e)} />
+                </label>
+                <div className="flex-1 grid grid-cols-2 gap-2">
+                  <input
+                    className={inputClass}
+                    placeholder="Name (e.g. Ken)"
+                    value={character.name}
+                    onChange={(e) => updateCharacter(character.id, { name: e.target.value })}
+                  />
+                  <input
+                    className={inputClass}
+                    placeholder="Aliases, comma separated (e.g. my brother)"
+                    value={character.aliases.join(', ')}
+                    onChange={(e) => updateCharacter(character.id, { aliases: e.target.value.split(',').map(a => a.trimStart()) })}
+                  />
+                  <textarea
+                    className={`${inputClass} col-span-2 h-16 resize-none`}
+                    placeholder="Appearance (e.g. 13-year-old boy, short black hair, blue school uniform)"
+                    value={character.appearance}
+                    onChange={(e) => updateCharacter(character.id, { appearance: e.target.value })}
+                  />
+                </div>
+                <div className="flex flex-col gap-2">
+                  <button
+                    onClick={() => removeCharacter(character.id)}
+                    className="p-2 rounded-lg text-red-500 hover:bg-red-50"
+                    title="Remove Character"
+                  >
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" /></svg>
+                  </button>
+                  {character.referenceImage && (
+                    <button
+                      onClick={() => updateCharacter(character.id, { referenceImage: undefined })}
+                      className="text-[10px] font-bold uppercase text-slate-400 hover:text-slate-600"
+                    >
+                      Clear ref
+                    </button>
+                  )}
+                </div>
+              </div>
+            ))}
+            <button
+              onClick={addCharacter}
+              className="px-4 py-2 rounded-lg text-sm font-semibold bg-slate-100 text-slate-600 hover:bg-slate-200"
+            >
+              + Add Character
+            </button>
+          </section>
+
+          <section className="space-y-4">
+            <div>
+              <h4 className="font-bold text-slate-800">Pronoun Pins</h4>
+              <p className="text-sm text-slate-500">
+                Treat a pronoun as a character within a lesson, given as an ID range of the list. Leave the range empty to apply to the whole project.
+              </p>
+            </div>
+            {pronounPins.map(pin => (
+              <div key={pin.id} className="flex items-center gap-2">
+                <select
+                  className={`${inputClass} w-28`}
+                  value={pin.pronoun}
+                  onChange={(e) => updatePin(pin.id, { pronoun: e.target.value })}
+                >
+                  {Object.keys(PRONOUN_FORMS).map(pronoun => (
+                    <option key={pronoun} value={pronoun}>{pronoun === 'i' ? 'I' : pronoun}</option>
+                  ))}
+                </select>
+                <span className="text-sm text-slate-400">means</span>
+                <select
+                  className={`${inputClass} w-40`}
+                  value={pin.characterId}
+                  onChange={(e) => updatePin(pin.id, { characterId: e.target.value })}
+                >
+                  {characters.map(c => <option key={c.id} value={c.id}>{c.name || '(unnamed)'}</option>)}
+                </select>
+                <span className="text-sm text-slate-400">from</span>
+                <input
+                  className={`${inputClass} w-32 font-mono`}
+                  placeholder="first ID"
+                  value={pin.fromId || ''}
+                  onChange={(e) => updatePin(pin.id, { fromId: e.target.value.trim() || undefined })}
+                />
+                <span className="text-sm text-slate-400">to</span>
+                <input
+                  className={`${inputClass} w-32 font-mono`}
+                  placeholder="last ID"
+                  value={pin.toId || ''}
+                  onChange={(e) => updatePin(pin.id, { toId: e.target.value.trim() || undefined })}
+                />
+                <button
+                  onClick={() => setPronounPins(prev => prev.filter(p => p.id !== pin.id))}
+                  className="p-2 rounded-lg text-red-500 hover:bg-red-50"
+                  title="Remove Pin"
+                >
+                  ×
+                </button>
+              </div>
+            ))}
+            <button
+              onClick={addPin}
+              disabled={characters.length === 0}
+              className="px-4 py-2 rounded-lg text-sm font-semibold bg-slate-100 text-slate-600 hover:bg-slate-200 disabled:opacity-50"
+            >
+              + Add Pin
+            </button>
+          </section>
+        </div>
+
+        <div className="flex items-center justify-end gap-2 p-4 border-t border-slate-100">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 rounded-lg text-sm font-semibold bg-white border border-slate-200 hover:bg-slate-50"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            className="px-4 py-2 rounded-lg text-sm font-semibold bg-indigo-600 text-white hover:bg-indigo-700"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
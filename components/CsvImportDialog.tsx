@@ -0,0 +1,282 @@
+import React, { useMemo, useState } from 'react';
+import { EnglishSentence, FieldDefinition, FieldType } from '../types';
+import {
+  ColumnMapping,
+  CsvIssueKind,
+  CsvTable,
+  ISSUE_LABELS,
+  SKIPPED_ISSUES,
+  buildSentences,
+  getColumnNames,
+  guessColumnMapping
+} from '../services/csvService';
+import { FIELD_TYPE_LABELS, inferFieldType } from '../services/fieldService';
+import { ImportMode, applyImport, diffSentences } from '../services/sentenceDiffService';
+
+interface CsvImportDialogProps {
+  fileName: string;
+  table: CsvTable;
+  current: EnglishSentence[];
+  // Types already chosen for columns of the same name
+  fieldDefinitions: FieldDefinition[];
+  // Fields the prompt template reads; changing one marks the existing image stale
+  promptFields: string[];
+  // `deletedIds` are sentences dropped by a replace whose images should go too
+  onImport: (sentences: EnglishSentence[], fields: FieldDefinition[], deletedIds: string[]) => void;
+  onClose: () => void;
+}
+
+const PREVIEW_ROWS = 5;
+const ISSUES_SHOWN = 5;
+const CHANGES_SHOWN = 5;
+
+const DELIMITER_NAMES: Record<string, string> = { ',': 'Comma', '\t': 'Tab', ';': 'Semicolon' };
+
+const inputClass = "w-full px-3 py-2 bg-white border border-slate-200 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 outline-none";
+
+export const CsvImportDialog: React.FC<CsvImportDialogProps> = ({ fileName, table, current, fieldDefinitions, promptFields, onImport, onClose }) => {
+  const [mapping, setMapping] = useState<ColumnMapping>(() => guessColumnMapping(table));
+  const [typeOverrides, setTypeOverrides] = useState<Record<string, FieldType>>({});
+  const [mode, setMode] = useState<ImportMode>('merge');
+  const [deleteRemovedImages, setDeleteRemovedImages] = useState(false);
+
+  const columnNames = getColumnNames(table, mapping.hasHeader);
+  const getFieldType = (index: number): FieldType => {
+    const name = columnNames[index];
+    if (typeOverrides[name]) return typeOverrides[name];
+    const existing = fieldDefinitions.find(d => d.name === name);
+    if (existing) return existing.type;
+    const body = mapping.hasHeader ? table.rows.slice(1) : table.rows;
+    return inferFieldType(body.map(row => row.cells[index] || ''));
+  };
+  const { sentences, issues } = useMemo(() => buildSentences(table, mapping), [table, mapping]);
+  const issuesByKind = useMemo(() => {
+    const grouped = new Map<CsvIssueKind, typeof issues>();
+    issues.forEach(issue => {
+      const group = grouped.get(issue.kind);
+      if (group) group.push(issue);
+      else grouped.set(issue.kind, [issue]);
+    });
+    return Array.from(grouped.entries());
+  }, [issues]);
+
+  // ID and text can't double as extra fields
+  const updateColumns = (patch: Partial<Pick<ColumnMapping, 'idColumn' | 'textColumn'>>) => {
+    setMapping(prev => {
+      const next = { ...prev, ...patch };
+      return { ...next, extraColumns: next.extraColumns.filter(i => i !== next.idColumn && i !== next.textColumn) };
+    });
+  };
+
+  const toggleExtra = (index: number) => {
+    setMapping(prev => ({
+      ...prev,
+      extraColumns: prev.extraColumns.includes(index)
+        ? prev.extraColumns.filter(i => i !== index)
+        : [...prev.extraColumns, index].sort((a, b) => a - b)
+    }));
+  };
+
+  const extraNames = mapping.extraColumns.map(i => columnNames[i]);
+  const diff = useMemo(() => diffSentences(current, sentences), [current, sentences]);
+  const imported = useMemo(() => applyImport(current, sentences, mode, promptFields), [current, sentences, mode, promptFields]);
+  const staleCount = useMemo(() => {
+    const wasStale = new Set(current.filter(s => s.stale).map(s => s.id));
+    return imported.filter(s => s.stale && !wasStale.has(s.id)).length;
+  }, [current, imported]);
+  const removedWithImages = diff.removed.filter(s => s.status === 'completed');
+
+  const handleImport = () => {
+    const fields = mapping.extraColumns.map(i => ({ name: columnNames[i], type: getFieldType(i), visible: true }));
+    const deletedIds = mode === 'replace' && deleteRemovedImages ? removedWithImages.map(s => s.id) : [];
+    onImport(imported, fields, deletedIds);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/80 backdrop-blur-sm p-4" onClick={onClose}>
+      <div
+        className="relative bg-white rounded-2xl overflow-hidden max-w-4xl w-full max-h-[90vh] flex flex-col shadow-2xl"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-4 border-b border-slate-100">
+          <h3 className="font-bold text-lg text-slate-800">
+            Import <span className="text-sm font-medium text-slate-400">{fileName} · {DELIMITER_NAMES[table.delimiter] || table.delimiter} separated</span>
+          </h3>
+          <button
+            onClick={onClose}
+            className="p-2 bg-slate-100 text-slate-500 rounded-lg hover:bg-slate-200 transition-colors"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" /></svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-auto p-6 space-y-6">
+          <section className="space-y-3">
+            <label className="flex items-center gap-2 text-sm font-medium text-slate-600 cursor-pointer">
+              <input
+                type="checkbox"
+                className="rounded text-indigo-600 focus:ring-indigo-500"
+                checked={mapping.hasHeader}
+                onChange={(e) => setMapping(prev => ({ ...prev, hasHeader: e.target.checked }))}
+              />
+              First row is a header
+            </label>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-xs font-semibold text-slate-400 mb-1 uppercase">ID Column</label>
+                <select className={inputClass} value={mapping.idColumn} onChange={(e) => updateColumns({ idColumn: Number(e.target.value) })}>
+                  {columnNames.map((name, i) => <option key={i} value={i}>{name}</option>)}
+                </select>
+              </div>
+              <div>
+                <label className="block text-xs font-semibold text-slate-400 mb-1 uppercase">English Text Column</label>
+                <select className={inputClass} value={mapping.textColumn} onChange={(e) => updateColumns({ textColumn: Number(e.target.value) })}>
+                  {columnNames.map((name, i) => <option key={i} value={i}>{name}</option>)}
+                </select>
+              </div>
+            </div>
+            {columnNames.length > 2 && (
+              <div>
+                <label className="block text-xs font-semibold text-slate-400 mb-1 uppercase">Keep as fields</label>
+                <div className="flex flex-wrap gap-2">
+                  {columnNames.map((name, i) => i !== mapping.idColumn && i !== mapping.textColumn && (
+                    <label key={i} className="inline-flex items-center gap-1 text-xs px-2 py-1 bg-slate-100 rounded text-slate-600 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        className="rounded text-indigo-600 focus:ring-indigo-500"
+                        checked={mapping.extraColumns.includes(i)}
+                        onChange={() => toggleExtra(i)}
+                      />
+                      {name}
+                      {mapping.extraColumns.includes(i) && (
+                        <select
+                          className="ml-1 bg-white border border-slate-200 rounded text-[10px] py-0"
+                          value={getFieldType(i)}
+                          onChange={(e) => setTypeOverrides(prev => ({ ...prev, [name]: e.target.value as FieldType }))}
+                        >
+                          {Object.entries(FIELD_TYPE_LABELS).map(([type, label]) => <option key={type} value={type}>{label}</option>)}
+                        </select>
+                      )}
+                    </label>
+                  ))}
+                </div>
+                <p className="text-xs text-slate-400 mt-1">Fields can be shown as table columns, used to filter and group the list, and used in prompt templates by their column name. Tags are split on commas.</p>
+              </div>
+            )}
+          </section>
+
+          <section>
+            <label className="block text-xs font-semibold text-slate-400 mb-2 uppercase">Preview</label>
+            <div className="overflow-x-auto border border-slate-100 rounded-xl">
+              <table className="w-full text-left text-xs">
+                <thead className="bg-slate-50 text-slate-400 uppercase">
+                  <tr>
+                    <th className="px-3 py-2">ID</th>
+                    <th className="px-3 py-2">English Text</th>
+                    {extraNames.map(name => <th key={name} className="px-3 py-2">{name}</th>)}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100 text-slate-600">
+                  {sentences.slice(0, PREVIEW_ROWS).map(s => (
+                    <tr key={s.id}>
+                      <td className="px-3 py-2 font-mono">{s.id}</td>
+                      <td className="px-3 py-2 whitespace-pre-wrap">{s.english_text}</td>
+                      {extraNames.map(name => <td key={name} className="px-3 py-2">{s.fields?.[name]}</td>)}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </section>
+
+          {current.length > 0 && (
+            <section className="space-y-3">
+              <label className="block text-xs font-semibold text-slate-400 uppercase">Changes from the current list</label>
+              <div className="grid grid-cols-4 gap-2 text-center">
+                <div className="p-3 rounded-xl bg-green-50 text-green-700"><div className="text-lg font-bold">{diff.added.length}</div><div className="text-xs">added</div></div>
+                <div className="p-3 rounded-xl bg-amber-50 text-amber-700"><div className="text-lg font-bold">{diff.textChanged.length}</div><div className="text-xs">text changed</div></div>
+                <div className="p-3 rounded-xl bg-red-50 text-red-700"><div className="text-lg font-bold">{diff.removed.length}</div><div className="text-xs">not in file</div></div>
+                <div className="p-3 rounded-xl bg-slate-50 text-slate-600"><div className="text-lg font-bold">{diff.unchanged + diff.fieldsChanged}</div><div className="text-xs">same text{diff.fieldsChanged > 0 ? ` (${diff.fieldsChanged} with new fields)` : ''}</div></div>
+              </div>
+              {diff.textChanged.length > 0 && (
+                <div className="text-xs text-slate-600 space-y-1">
+                  {diff.textChanged.slice(0, CHANGES_SHOWN).map(({ before, after }) => (
+                    <div key={after.id}>
+                      <span className="font-mono mr-2">{after.id}</span>
+                      <span className="line-through text-slate-400">{before.english_text}</span>
+                      <span className="mx-1">→</span>
+                      <span>{after.english_text}</span>
+                    </div>
+                  ))}
+                  {diff.textChanged.length > CHANGES_SHOWN && <div>...and {diff.textChanged.length - CHANGES_SHOWN} more</div>}
+                  {staleCount > 0 && (
+                    <p className="text-amber-600 font-medium">{staleCount} existing images will be marked stale so they can be regenerated.</p>
+                  )}
+                </div>
+              )}
+              <div className="flex flex-col gap-2 text-sm text-slate-600">
+                <label className="flex items-center gap-2 cursor-pointer">
+                  <input type="radio" name="import-mode" checked={mode === 'merge'} onChange={() => setMode('merge')} />
+                  <span><span className="font-semibold">Merge</span> — update and add sentences, keep the {diff.removed.length} not in the file</span>
+                </label>
+                <label className="flex items-center gap-2 cursor-pointer">
+                  <input type="radio" name="import-mode" checked={mode === 'replace'} onChange={() => setMode('replace')} />
+                  <span><span className="font-semibold">Replace</span> — the list becomes exactly the file, dropping {diff.removed.length} sentences</span>
+                </label>
+                {mode === 'replace' && removedWithImages.length > 0 && (
+                  <label className="ml-6 flex items-center gap-2 text-xs text-red-600 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      className="rounded text-red-600 focus:ring-red-500"
+                      checked={deleteRemovedImages}
+                      onChange={(e) => setDeleteRemovedImages(e.target.checked)}
+                    />
+                    Also delete the images and history of the {removedWithImages.length} dropped sentences
+                  </label>
+                )}
+              </div>
+            </section>
+          )}
+
+          <section className="space-y-2">
+            <label className="block text-xs font-semibold text-slate-400 uppercase">Validation</label>
+            {issuesByKind.length === 0 ? (
+              <p className="text-sm text-green-600">No problems found.</p>
+            ) : issuesByKind.map(([kind, list]) => (
+              <div key={kind} className={`p-3 rounded-xl text-xs ${SKIPPED_ISSUES.includes(kind) ? 'bg-red-50 text-red-700' : 'bg-amber-50 text-amber-700'}`}>
+                <div className="font-semibold mb-1">
+                  {ISSUE_LABELS[kind]} ({list.length}){SKIPPED_ISSUES.includes(kind) ? ' — skipped' : ' — imported as read'}
+                </div>
+                {list.slice(0, ISSUES_SHOWN).map((issue, i) => (
+                  <div key={i}>Line {issue.line}: {issue.message}</div>
+                ))}
+                {list.length > ISSUES_SHOWN && <div>...and {list.length - ISSUES_SHOWN} more</div>}
+              </div>
+            ))}
+          </section>
+        </div>
+
+        <div className="flex items-center justify-between p-4 border-t border-slate-100">
+          <span className="text-sm text-slate-500">
+            {sentences.length} sentences in the file
+          </span>
+          <div className="flex gap-2">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 rounded-lg text-sm font-semibold bg-white border border-slate-200 hover:bg-slate-50"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleImport}
+              disabled={sentences.length === 0}
+              className="px-4 py-2 rounded-lg text-sm font-semibold bg-indigo-600 text-white hover:bg-indigo-700 disabled:bg-slate-200 disabled:text-slate-400"
+            >
+              {current.length === 0 ? `Import ${sentences.length}` : mode === 'merge' ? 'Merge' : 'Replace'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
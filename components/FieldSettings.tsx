@@ -0,0 +1,43 @@
+import React from 'react';
+import { FieldDefinition, FieldType } from '../types';
+import { FIELD_TYPE_LABELS } from '../services/fieldService';
+
+interface FieldSettingsProps {
+  fields: FieldDefinition[];
+  onChange: (fields: FieldDefinition[]) => void;
+}
+
+export const FieldSettings: React.FC<FieldSettingsProps> = ({ fields, onChange }) => {
+  const update = (name: string, patch: Partial<FieldDefinition>) => {
+    onChange(fields.map(f => f.name === name ? { ...f, ...patch } : f));
+  };
+
+  return (
+    <div className="glass-card p-6 rounded-2xl border border-slate-200 h-fit">
+      <h3 className="font-bold mb-3">Fields</h3>
+      <div className="space-y-2">
+        {fields.map(field => (
+          <div key={field.name} className="flex items-center gap-2">
+            <label className="flex-1 flex items-center gap-2 text-sm text-slate-600 cursor-pointer min-w-0" title="Show as a table column">
+              <input
+                type="checkbox"
+                className="rounded text-indigo-600 focus:ring-indigo-500"
+                checked={field.visible}
+                onChange={(e) => update(field.name, { visible: e.target.checked })}
+              />
+              <span className="truncate">{field.name}</span>
+            </label>
+            <select
+              className="px-2 py-1 bg-white border border-slate-200 rounded-lg text-xs focus:ring-2 focus:ring-indigo-500 outline-none"
+              value={field.type}
+              onChange={(e) => update(field.name, { type: e.target.value as FieldType })}
+            >
+              {Object.entries(FIELD_TYPE_LABELS).map(([type, label]) => <option key={type} value={type}>{label}</option>)}
+            </select>
+          </div>
+        ))}
+      </div>
+      <p className="text-[10px] text-slate-400 mt-3">Checked fields are shown in the table. Numbers sort numerically; tags are split on commas.</p>
+    </div>
+  );
+};
@@ -0,0 +1,100 @@
+import React, { useEffect, useState } from 'react';
+import { EnglishSentence, ImageMeta } from '../types';
+import { loadThumbnail } from '../services/thumbnailService';
+import { FAILURE_LABELS } from '../services/errorService';
+import { REVIEW_LABELS } from '../services/reviewService';
+import { BlobImage } from './BlobImage';
+import { useVirtualWindow } from './useVirtualWindow';
+
+interface ImageGalleryProps {
+  sentences: EnglishSentence[];
+  tileSize: number;
+  imageMeta: Record<string, ImageMeta>;
+  version: number;
+  onView: (id: string) => void;
+  className?: string;
+}
+
+const GAP = 12;
+const PADDING = 16;
+// The ID line under each tile
+const LABEL_HEIGHT = 20;
+
+const GalleryTile: React.FC<{ sentence: EnglishSentence; size: number; imageVersion?: string; version: number; onView: (id: string) => void }> = ({ sentence, size, imageVersion, version, onView }) => {
+  const [thumbnail, setThumbnail] = useState<Blob | null>(null);
+
+  useEffect(() => {
+    let mounted = true;
+    if (sentence.status !== 'completed') {
+      setThumbnail(null);
+      return;
+    }
+    loadThumbnail(sentence.id)
+      .then(result => { if (mounted) setThumbnail(result); })
+      .catch(() => console.error("Failed to load thumbnail for", sentence.id));
+    return () => { mounted = false; };
+  }, [sentence.id, sentence.status, imageVersion, version]);
+
+  return (
+    <div style={{ width: size }}>
+      <button
+        onClick={() => onView(sentence.id)}
+        title={sentence.english_text}
+        className="relative block rounded-lg overflow-hidden border border-slate-100 bg-slate-50 hover:ring-2 hover:ring-indigo-400 transition-shadow"
+        style={{ width: size, height: size }}
+      >
+        {thumbnail ? (
+          <BlobImage blob={thumbnail} alt={sentence.id} className="w-full h-full object-cover" />
+        ) : (
+          <span className={`absolute inset-0 flex items-center justify-center text-[10px] font-bold uppercase ${sentence.status === 'error' ? 'text-red-600' : sentence.status === 'processing' ? 'text-indigo-500 animate-pulse' : 'text-slate-400'}`}>
+            {sentence.status === 'error' ? FAILURE_LABELS[sentence.errorKind || 'unknown'] : sentence.status}
+          </span>
+        )}
+        {sentence.stale && (
+          <span className="absolute top-1 left-1 text-[10px] font-bold uppercase px-1 rounded bg-amber-100 text-amber-700">Stale</span>
+        )}
+        {sentence.flaggedForReview ? (
+          <span className="absolute bottom-1 left-1 text-[10px] font-bold uppercase px-1 rounded bg-amber-500 text-white">Review</span>
+        ) : sentence.review && (
+          <span className="absolute bottom-1 left-1 text-[10px] font-bold uppercase px-1 rounded bg-white/90 text-slate-600">{REVIEW_LABELS[sentence.review]}</span>
+        )}
+      </button>
+      <div className="font-mono text-[10px] text-slate-500 truncate" style={{ height: LABEL_HEIGHT, lineHeight: `${LABEL_HEIGHT}px` }}>{sentence.id}</div>
+    </div>
+  );
+};
+
+// Rows of equal height, so only the rows in view are mounted without any measuring
+export const ImageGallery: React.FC<ImageGalleryProps> = ({ sentences, tileSize, imageMeta, version, onView, className }) => {
+  const rowHeight = tileSize + LABEL_HEIGHT + GAP;
+  const [columns, setColumns] = useState(1);
+  const rowCount = Math.ceil(sentences.length / columns);
+  const { scrollRef, start, end, paddingTop, paddingBottom, viewportWidth } = useVirtualWindow({
+    count: rowCount,
+    getKey: index => String(index),
+    estimateSize: rowHeight
+  });
+
+  useEffect(() => {
+    setColumns(Math.max(1, Math.floor((viewportWidth - PADDING * 2 + GAP) / (tileSize + GAP))));
+  }, [viewportWidth, tileSize]);
+
+  const rows = [];
+  for (let row = start; row < end; row++) {
+    rows.push(
+      <div key={row} className="flex" style={{ gap: GAP, height: rowHeight }}>
+        {sentences.slice(row * columns, (row + 1) * columns).map(s => (
+          <GalleryTile key={s.id} sentence={s} size={tileSize} imageVersion={imageMeta[s.id]?.variantId} version={version} onView={onView} />
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div ref={scrollRef} className={className}>
+      <div style={{ padding: PADDING, paddingTop: PADDING + paddingTop, paddingBottom: PADDING + paddingBottom }}>
+        {rows}
+      </div>
+    </div>
+  );
+};
@@ -1,14 +1,69 @@
 
-import React from 'react';
+import React, { useEffect, useState } from 'react';
+import { ImageMeta, ImageVariant } from '../types';
+import { getImage, getImageMeta, getVariants } from '../services/dbService';
+import { discardOtherVariants } from '../services/variantService';
+import { QUALITY_FLAG_LABELS } from '../services/qualityService';
+import { BlobImage, useObjectUrl } from './BlobImage';
 
 interface ImagePreviewModalProps {
-  imageUrl: string;
   id: string;
+  // Changes when another version is selected
+  imageVersion?: string;
+  onSelectVariant: (variant: ImageVariant) => void;
   onClose: () => void;
 }
 
-export const ImagePreviewModal: React.FC<ImagePreviewModalProps> = ({ imageUrl, id, onClose }) => {
+const MetaField: React.FC<{ label: string; value?: string }> = ({ label, value }) => {
+  if (!value) return null;
+  return (
+    <p className="whitespace-pre-wrap">
+      <span className="font-semibold uppercase text-slate-400 mr-2">{label}</span>
+      {value}
+    </p>
+  );
+};
+
+export const ImagePreviewModal: React.FC<ImagePreviewModalProps> = ({ id, imageVersion, onSelectVariant, onClose }) => {
+  const [image, setImage] = useState<Blob | null>(null);
+  const [meta, setMeta] = useState<ImageMeta | null>(null);
+  const [variants, setVariants] = useState<ImageVariant[]>([]);
+  const imageUrl = useObjectUrl(image);
+
+  // Reload after a selection so the image and metadata follow the chosen variant
+  useEffect(() => {
+    let mounted = true;
+    Promise.all([getImage(id), getImageMeta(id), getVariants(id)])
+      .then(([imageResult, metaResult, variantResults]) => {
+        if (!mounted) return;
+        setImage(imageResult);
+        setMeta(metaResult);
+        setVariants(variantResults);
+      })
+      .catch(e => console.error("Failed to load image metadata for", id, e));
+    return () => { mounted = false; };
+  }, [id, imageVersion]);
+
+  const selectedId = meta?.variantId;
+  const selected = variants.find(v => v.id === selectedId);
+  // Candidates come from the selected image's generation; everything else is history
+  const candidates = selected ? variants.filter(v => v.generationId === selected.generationId) : [];
+  const history = variants.filter(v => !candidates.includes(v)).reverse();
+
+  const handleDiscardOthers = async () => {
+    if (!selectedId) return;
+    if (!window.confirm(`Discard the other ${candidates.length - 1} candidates?`)) return;
+    try {
+      const keepIds = variants.filter(v => v.id === selectedId || !candidates.includes(v)).map(v => v.id);
+      setVariants(await discardOtherVariants(id, keepIds));
+    } catch (e) {
+      console.error("Failed to discard candidates for", id, e);
+      alert("Failed to discard candidates.");
+    }
+  };
+
   const handleDownload = () => {
+    if (!imageUrl) return;
     const a = document.createElement('a');
     a.href = imageUrl;
     a.download = `${id}.png`;
@@ -28,7 +83,8 @@ export const ImagePreviewModal: React.FC<ImagePreviewModalProps> = ({ imageUrl,
           <div className="flex items-center gap-2">
             <button 
               onClick={handleDownload}
-              className="p-2 bg-indigo-50 text-indigo-600 rounded-lg hover:bg-indigo-100 transition-colors flex items-center gap-2 text-sm font-semibold"
+              disabled={!imageUrl}
+              className="p-2 bg-indigo-50 text-indigo-600 rounded-lg hover:bg-indigo-100 transition-colors flex items-center gap-2 text-sm font-semibold disabled:opacity-50"
             >
               <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" /></svg>
               Download
@@ -43,8 +99,90 @@ export const ImagePreviewModal: React.FC<ImagePreviewModalProps> = ({ imageUrl,
         </div>
         
         <div className="flex-1 overflow-auto bg-slate-50 p-4 flex items-center justify-center">
-          <img src={imageUrl} alt={id} className="max-w-full max-h-full object-contain rounded-lg shadow-md" />
+          {imageUrl ? (
+            <img src={imageUrl} alt={id} className="max-w-full max-h-full object-contain rounded-lg shadow-md" />
+          ) : (
+            <p className="text-sm italic text-slate-400 py-16">No image selected. Restore a version from the history below.</p>
+          )}
         </div>
+
+        {candidates.length > 1 && (
+          <div className="p-4 border-t border-slate-100">
+            <div className="flex items-center justify-between mb-2">
+              <span className="text-xs font-semibold text-slate-400 uppercase">Candidates ({candidates.length})</span>
+              {selectedId && (
+                <button
+                  onClick={handleDiscardOthers}
+                  className="text-xs font-semibold text-red-500 hover:text-red-700"
+                >
+                  Discard others
+                </button>
+              )}
+            </div>
+            <div className="flex gap-3 overflow-x-auto pb-1">
+              {candidates.map((variant, index) => {
+                const isSelected = variant.id === selectedId;
+                return (
+                  <button
+                    key={variant.id}
+                    onClick={() => !isSelected && onSelectVariant(variant)}
+                    className={`relative shrink-0 w-28 h-28 rounded-lg overflow-hidden border-2 transition-colors ${isSelected ? 'border-indigo-600' : 'border-transparent hover:border-indigo-300'}`}
+                    title={isSelected ? 'Selected' : 'Use this candidate'}
+                  >
+                    <BlobImage blob={variant.image} alt={`${id} #${index + 1}`} className="w-full h-full object-cover" />
+                    <span className={`absolute bottom-1 left-1 text-[10px] font-bold px-1 rounded ${isSelected ? 'bg-indigo-600 text-white' : 'bg-white/80 text-slate-600'}`}>
+                      {isSelected ? 'Selected' : `#${index + 1}`}
+                    </span>
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
+        {history.length > 0 && (
+          <div className="p-4 border-t border-slate-100">
+            <span className="block text-xs font-semibold text-slate-400 uppercase mb-2">History ({history.length})</span>
+            <div className="flex gap-3 overflow-x-auto pb-1">
+              {history.map(variant => (
+                <div key={variant.id} className="shrink-0 w-24 space-y-1">
+                  <BlobImage blob={variant.image} alt={id} className="w-24 h-24 object-cover rounded-lg border border-slate-200" />
+                  <div className="text-[10px] text-slate-400 leading-tight" title={[variant.model, variant.styleDescription].filter(Boolean).join('\n')}>
+                    {variant.createdAt ? new Date(variant.createdAt).toLocaleString() : 'Before history'}
+                  </div>
+                  <button
+                    onClick={() => onSelectVariant(variant)}
+                    className="w-full text-[10px] font-bold uppercase py-1 rounded bg-slate-100 text-slate-600 hover:bg-indigo-50 hover:text-indigo-600"
+                  >
+                    Revert
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {meta && (
+          <div className="p-4 border-t border-slate-100 text-xs text-slate-500 space-y-2 max-h-48 overflow-y-auto">
+            <div className="flex flex-wrap gap-x-3 gap-y-1 font-semibold text-slate-700">
+              <span>{meta.templateVersion !== undefined ? `Template v${meta.templateVersion}` : 'Template unknown'}</span>
+              <span className="font-normal text-slate-400">{new Date(meta.createdAt).toLocaleString()}</span>
+              {meta.model && <span className="font-normal text-slate-400">{meta.provider ? `${meta.provider} / ` : ''}{meta.model}</span>}
+              {meta.aspectRatio && <span className="font-normal text-slate-400">{meta.aspectRatio}</span>}
+              {meta.durationMs !== undefined && <span className="font-normal text-slate-400">{(meta.durationMs / 1000).toFixed(1)}s</span>}
+              {meta.attempts !== undefined && <span className="font-normal text-slate-400">attempt {meta.attempts}</span>}
+            </div>
+            <MetaField label="Prompt" value={meta.prompt} />
+            <MetaField label="Style" value={meta.styleDescription} />
+            <MetaField label="Negative" value={meta.negativePrompt} />
+            {meta.quality && (
+              <MetaField
+                label="Quality"
+                value={[`${meta.quality.score} / 100`, ...meta.quality.flags.map(flag => QUALITY_FLAG_LABELS[flag]), meta.quality.notes].filter(Boolean).join(' · ')}
+              />
+            )}
+          </div>
+        )}
       </div>
     </div>
   );
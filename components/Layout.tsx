@@ -1,7 +1,12 @@
 
 import React from 'react';
 
-export const Layout: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+interface LayoutProps {
+  children: React.ReactNode;
+  projectSwitcher?: React.ReactNode;
+}
+
+export const Layout: React.FC<LayoutProps> = ({ children, projectSwitcher }) => {
   return (
     <div className="min-h-screen flex flex-col">
       <header className="sticky top-0 z-50 bg-white/80 backdrop-blur-md border-b border-slate-200">
@@ -12,6 +17,7 @@ export const Layout: React.FC<{ children: React.ReactNode }> = ({ children }) =>
               English Visualizer
             </h1>
           </div>
+          {projectSwitcher}
         </div>
       </header>
       <main className="flex-1 w-full max-w-7xl mx-auto px-4 py-8">
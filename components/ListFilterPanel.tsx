@@ -0,0 +1,83 @@
+import React from 'react';
+import { EnglishSentence, FailureKind, GeneratedWithin, ListQuery, SortKey } from '../types';
+import { FAILURE_LABELS } from '../services/errorService';
+import { GENERATED_LABELS, SORT_KEY_LABELS, STATUS_LABELS } from '../services/listQueryService';
+
+interface ListFilterPanelProps {
+  query: ListQuery;
+  onChange: (patch: Partial<ListQuery>) => void;
+  sentences: EnglishSentence[];
+}
+
+const selectClass = "bg-white border border-slate-200 rounded-lg px-2 py-1 text-xs focus:ring-2 focus:ring-indigo-500 outline-none";
+
+const toggle = <T,>(values: T[], value: T) => values.includes(value) ? values.filter(v => v !== value) : [...values, value];
+
+export const ListFilterPanel: React.FC<ListFilterPanelProps> = ({ query, onChange, sentences }) => {
+  const errorCounts = new Map<FailureKind, number>();
+  sentences.forEach(s => {
+    if (s.status === 'error') errorCounts.set(s.errorKind || 'unknown', (errorCounts.get(s.errorKind || 'unknown') || 0) + 1);
+  });
+
+  const chip = (active: boolean, label: string, onClick: () => void) => (
+    <button
+      key={label}
+      onClick={onClick}
+      className={`px-2 py-1 rounded-full text-xs font-semibold transition-colors ${active ? 'bg-indigo-600 text-white' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'}`}
+    >
+      {label}
+    </button>
+  );
+
+  return (
+    <div className="glass-card p-4 rounded-2xl border border-slate-200 grid grid-cols-1 md:grid-cols-2 gap-4 text-xs">
+      <div>
+        <p className="font-bold text-slate-500 mb-2">Status</p>
+        <div className="flex flex-wrap gap-1">
+          {(Object.keys(STATUS_LABELS) as EnglishSentence['status'][]).map(value =>
+            chip(query.statuses.includes(value), STATUS_LABELS[value], () => onChange({ statuses: toggle(query.statuses, value) }))
+          )}
+        </div>
+      </div>
+      <div>
+        <p className="font-bold text-slate-500 mb-2">Error type</p>
+        <div className="flex flex-wrap gap-1">
+          {(Object.keys(FAILURE_LABELS) as FailureKind[]).map(kind =>
+            chip(query.errorKinds.includes(kind), `${FAILURE_LABELS[kind]} (${errorCounts.get(kind) || 0})`, () => onChange({ errorKinds: toggle(query.errorKinds, kind) }))
+          )}
+        </div>
+      </div>
+      <div>
+        <p className="font-bold text-slate-500 mb-2">Generated</p>
+        <div className="flex flex-wrap items-center gap-2">
+          <select className={selectClass} value={query.generated} onChange={(e) => onChange({ generated: e.target.value as GeneratedWithin })}>
+            {Object.entries(GENERATED_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+          </select>
+          {query.generated === 'range' && (
+            <>
+              <input type="date" className={selectClass} value={query.generatedFrom || ''} onChange={(e) => onChange({ generatedFrom: e.target.value || undefined })} />
+              <span className="text-slate-400">to</span>
+              <input type="date" className={selectClass} value={query.generatedTo || ''} onChange={(e) => onChange({ generatedTo: e.target.value || undefined })} />
+            </>
+          )}
+        </div>
+      </div>
+      <div>
+        <p className="font-bold text-slate-500 mb-2">Sort</p>
+        <div className="flex items-center gap-2">
+          <select className={selectClass} value={query.sortKey} onChange={(e) => onChange({ sortKey: e.target.value as SortKey })}>
+            {Object.entries(SORT_KEY_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+          </select>
+          <button
+            onClick={() => onChange({ sortDescending: !query.sortDescending })}
+            disabled={query.sortKey === 'list'}
+            className="px-2 py-1 rounded-lg font-semibold bg-slate-100 text-slate-600 hover:bg-slate-200 disabled:opacity-50"
+          >
+            {query.sortDescending ? 'Descending' : 'Ascending'}
+          </button>
+        </div>
+        {query.sortKey !== 'list' && <p className="text-[10px] text-slate-400 mt-1">Rows can only be moved in list order.</p>}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,61 @@
+import React from 'react';
+import { Project } from '../types';
+
+interface ProjectSwitcherProps {
+  projects: Project[];
+  activeProjectId: string | null;
+  onSwitch: (project: Project) => void;
+  onCreate: () => void;
+  onRename: (project: Project) => void;
+  onDelete: (project: Project) => void;
+  disabled?: boolean;
+}
+
+export const ProjectSwitcher: React.FC<ProjectSwitcherProps> = ({ projects, activeProjectId, onSwitch, onCreate, onRename, onDelete, disabled = false }) => {
+  const activeProject = projects.find(p => p.id === activeProjectId);
+
+  return (
+    <div className="flex items-center gap-2" title={disabled ? 'Stop the running batch to switch projects' : undefined}>
+      <select
+        className="bg-slate-100 border-none rounded-lg px-3 py-2 text-sm font-medium focus:ring-2 focus:ring-indigo-500 max-w-[14rem] disabled:opacity-50"
+        value={activeProjectId || ''}
+        disabled={disabled}
+        onChange={(e) => {
+          const project = projects.find(p => p.id === e.target.value);
+          if (project) onSwitch(project);
+        }}
+      >
+        {projects.map(project => (
+          <option key={project.id} value={project.id}>{project.name}</option>
+        ))}
+      </select>
+      <button
+        onClick={onCreate}
+        disabled={disabled}
+        title="New Project"
+        className="p-2 rounded-lg text-slate-500 hover:bg-slate-100 transition-colors disabled:opacity-50"
+      >
+        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 4v16m8-8H4" /></svg>
+      </button>
+      {activeProject && (
+        <>
+          <button
+            onClick={() => onRename(activeProject)}
+            title="Rename Project"
+            className="p-2 rounded-lg text-slate-500 hover:bg-slate-100 transition-colors"
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" /></svg>
+          </button>
+          <button
+            onClick={() => onDelete(activeProject)}
+            disabled={disabled || projects.length <= 1}
+            title="Delete Project"
+            className="p-2 rounded-lg text-red-500 hover:bg-red-50 transition-colors disabled:opacity-50"
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" /></svg>
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
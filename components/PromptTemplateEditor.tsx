@@ -0,0 +1,195 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { EnglishSentence, PromptTemplate } from '../types';
+import {
+  BUILT_IN_PLACEHOLDERS,
+  DEFAULT_PROMPT_TEMPLATE,
+  buildPromptContext,
+  findUnknownPlaceholders,
+  renderPromptTemplate
+} from '../services/promptService';
+
+interface PromptTemplateEditorProps {
+  template: PromptTemplate;
+  sentences: EnglishSentence[];
+  styleDescription: string;
+  useScene: boolean;
+  describeCharacters: (sentence: EnglishSentence) => string;
+  onSave: (body: string, negativePrompt: string[]) => void;
+  onClose: () => void;
+}
+
+export const PromptTemplateEditor: React.FC<PromptTemplateEditorProps> = ({ template, sentences, styleDescription, useScene, describeCharacters, onSave, onClose }) => {
+  const [body, setBody] = useState(template.body);
+  const [negativePrompt, setNegativePrompt] = useState<string[]>(template.negativePrompt);
+  const [newTerm, setNewTerm] = useState('');
+  const [previewId, setPreviewId] = useState(sentences[0]?.id || '');
+  const bodyRef = useRef<HTMLTextAreaElement>(null);
+
+  const fieldNames = useMemo(() => {
+    const names = new Set<string>();
+    sentences.forEach(s => Object.keys(s.fields || {}).forEach(name => names.add(name)));
+    return Array.from(names);
+  }, [sentences]);
+
+  const previewSentence = sentences.find(s => s.id === previewId);
+  const preview = previewSentence
+    ? renderPromptTemplate(body, buildPromptContext(previewSentence, styleDescription, { useScene, characters: describeCharacters(previewSentence) }))
+    : '';
+  const unknown = findUnknownPlaceholders(body, fieldNames);
+  const isDirty = body !== template.body || negativePrompt.join('\n') !== template.negativePrompt.join('\n');
+
+  const insertPlaceholder = (name: string) => {
+    const token = `{{${name}}}`;
+    const textarea = bodyRef.current;
+    if (!textarea) {
+      setBody(prev => prev + token);
+      return;
+    }
+    const { selectionStart, selectionEnd } = textarea;
+    setBody(prev => prev.slice(0, selectionStart) + token + prev.slice(selectionEnd));
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(selectionStart + token.length, selectionStart + token.length);
+    });
+  };
+
+  const addTerm = () => {
+    const terms = newTerm.split(',').map(t => t.trim()).filter(t => t && !negativePrompt.includes(t));
+    if (terms.length > 0) setNegativePrompt(prev => [...prev, ...terms]);
+    setNewTerm('');
+  };
+
+  const resetToDefault = () => {
+    setBody(DEFAULT_PROMPT_TEMPLATE.body);
+    setNegativePrompt(DEFAULT_PROMPT_TEMPLATE.negativePrompt);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/80 backdrop-blur-sm p-4" onClick={onClose}>
+      <div
+        className="relative bg-white rounded-2xl overflow-hidden max-w-4xl w-full max-h-[90vh] flex flex-col shadow-2xl"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-4 border-b border-slate-100">
+          <h3 className="font-bold text-lg text-slate-800">Prompt Template <span className="text-sm font-medium text-slate-400">v{template.version}</span></h3>
+          <button
+            onClick={onClose}
+            className="p-2 bg-slate-100 text-slate-500 rounded-lg hover:bg-slate-200 transition-colors"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" /></svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-auto p-6 space-y-6">
+          <div>
+            <label className="block text-xs font-semibold text-slate-400 mb-2 uppercase">Template</label>
+            <textarea
+              ref={bodyRef}
+              className="w-full h-40 px-4 py-3 bg-white border border-slate-200 rounded-xl text-sm font-mono focus:ring-2 focus:ring-indigo-500 outline-none resize-y"
+              value={body}
+              onChange={(e) => setBody(e.target.value)}
+            />
+            <div className="flex flex-wrap items-center gap-2 mt-2">
+              <span className="text-xs text-slate-400">Insert:</span>
+              {[...BUILT_IN_PLACEHOLDERS, ...fieldNames.filter(name => !BUILT_IN_PLACEHOLDERS.includes(name))].map(name => (
+                <button
+                  key={name}
+                  onClick={() => insertPlaceholder(name)}
+                  className="font-mono text-xs px-2 py-1 bg-slate-100 rounded text-slate-600 hover:bg-indigo-50 hover:text-indigo-600"
+                >
+                  {`{{${name}}}`}
+                </button>
+              ))}
+            </div>
+            <p className="text-xs text-slate-400 mt-2">
+              Wrap optional parts in <code className="font-mono">{'{{#name}}...{{/name}}'}</code> to drop them when the value is empty.
+            </p>
+            {unknown.length > 0 && (
+              <p className="text-xs font-medium text-amber-600 mt-2">
+                Unknown placeholders (will render empty): {unknown.map(name => `{{${name}}}`).join(', ')}
+              </p>
+            )}
+          </div>
+
+          <div>
+            <label className="block text-xs font-semibold text-slate-400 mb-2 uppercase">Negative Prompt</label>
+            <div className="flex flex-wrap gap-2">
+              {negativePrompt.map(term => (
+                <span key={term} className="inline-flex items-center gap-1 text-xs px-2 py-1 bg-red-50 text-red-700 rounded-full">
+                  {term}
+                  <button
+                    onClick={() => setNegativePrompt(prev => prev.filter(t => t !== term))}
+                    className="hover:text-red-900"
+                    title="Remove"
+                  >
+                    ×
+                  </button>
+                </span>
+              ))}
+            </div>
+            <div className="flex gap-2 mt-2">
+              <input
+                type="text"
+                className="flex-1 px-3 py-2 bg-white border border-slate-200 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+                placeholder="Add terms (comma separated)"
+                value={newTerm}
+                onChange={(e) => setNewTerm(e.target.value)}
+                onKeyDown={(e) => { if (e.key === 'Enter') addTerm(); }}
+              />
+              <button
+                onClick={addTerm}
+                className="px-4 py-2 rounded-lg text-sm font-semibold bg-slate-100 text-slate-600 hover:bg-slate-200"
+              >
+                Add
+              </button>
+            </div>
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <label className="block text-xs font-semibold text-slate-400 uppercase">Preview</label>
+              <input
+                type="text"
+                list="prompt-preview-ids"
+                className="w-48 px-3 py-1 bg-white border border-slate-200 rounded-lg text-xs font-mono focus:ring-2 focus:ring-indigo-500 outline-none"
+                placeholder="Sentence ID"
+                value={previewId}
+                onChange={(e) => setPreviewId(e.target.value)}
+              />
+              <datalist id="prompt-preview-ids">
+                {sentences.slice(0, 500).map(s => <option key={s.id} value={s.id}>{s.english_text}</option>)}
+              </datalist>
+            </div>
+            <div className="p-4 bg-slate-50 rounded-xl text-sm text-slate-700 whitespace-pre-wrap min-h-[4rem]">
+              {previewSentence ? preview : <span className="italic text-slate-400">Choose a sentence to preview the rendered prompt.</span>}
+            </div>
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between p-4 border-t border-slate-100">
+          <button
+            onClick={resetToDefault}
+            className="px-4 py-2 rounded-lg text-sm font-semibold text-slate-500 hover:bg-slate-100"
+          >
+            Reset to Default
+          </button>
+          <div className="flex gap-2">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 rounded-lg text-sm font-semibold bg-white border border-slate-200 hover:bg-slate-50"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={() => onSave(body, negativePrompt)}
+              disabled={!isDirty}
+              className="px-4 py-2 rounded-lg text-sm font-semibold bg-indigo-600 text-white hover:bg-indigo-700 disabled:bg-slate-200 disabled:text-slate-400"
+            >
+              Save as v{template.version + 1}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
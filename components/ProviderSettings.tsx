@@ -0,0 +1,97 @@
+import React from 'react';
+import { ImageProviderConfig, ImageProviderType, HttpImageApi } from '../types';
+
+interface ProviderSettingsProps {
+  config: ImageProviderConfig;
+  onChange: (config: ImageProviderConfig) => void;
+  disabled?: boolean;
+  hasGeminiKey: boolean;
+  onOpenApiSettings: () => void;
+}
+
+const inputClass = "w-full px-3 py-2 bg-white border border-slate-200 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 outline-none transition-all disabled:opacity-50";
+
+export const ProviderSettings: React.FC<ProviderSettingsProps> = ({ config, onChange, disabled = false, hasGeminiKey, onOpenApiSettings }) => {
+  const update = (patch: Partial<ImageProviderConfig>) => onChange({ ...config, ...patch });
+
+  return (
+    <div className="glass-card p-6 rounded-2xl border border-slate-200 h-fit">
+      <h3 className="font-bold mb-4">Image Provider</h3>
+      <div className="space-y-3">
+        <select
+          className={inputClass}
+          value={config.type}
+          disabled={disabled}
+          onChange={(e) => update({ type: e.target.value as ImageProviderType })}
+        >
+          <option value="gemini">Gemini</option>
+          <option value="http">HTTP backend</option>
+          <option value="mock">Mock (offline)</option>
+        </select>
+
+        {config.type === 'gemini' && (
+          <button
+            onClick={onOpenApiSettings}
+            className="w-full px-3 py-2 rounded-lg text-sm font-semibold bg-white border border-slate-200 hover:bg-slate-50 transition-all flex items-center justify-between"
+          >
+            <span>API Settings</span>
+            <span className={`text-xs ${hasGeminiKey ? 'text-green-600' : 'text-amber-600'}`}>{hasGeminiKey ? 'Key set' : 'No key'}</span>
+          </button>
+        )}
+
+        {config.type === 'http' && (
+          <>
+            <div>
+              <label className="block text-xs font-semibold text-slate-400 mb-1 uppercase">API Style</label>
+              <select
+                className={inputClass}
+                value={config.api || 'openai'}
+                disabled={disabled}
+                onChange={(e) => update({ api: e.target.value as HttpImageApi })}
+              >
+                <option value="openai">OpenAI-compatible</option>
+                <option value="automatic1111">Automatic1111</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-semibold text-slate-400 mb-1 uppercase">Base URL</label>
+              <input
+                type="url"
+                className={inputClass}
+                placeholder={config.api === 'automatic1111' ? 'http://localhost:7860' : 'https://api.example.com'}
+                value={config.baseUrl || ''}
+                disabled={disabled}
+                onChange={(e) => update({ baseUrl: e.target.value })}
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-semibold text-slate-400 mb-1 uppercase">Model</label>
+              <input
+                type="text"
+                className={inputClass}
+                placeholder="Backend default"
+                value={config.model || ''}
+                disabled={disabled}
+                onChange={(e) => update({ model: e.target.value })}
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-semibold text-slate-400 mb-1 uppercase">API Key (optional)</label>
+              <input
+                type="password"
+                className={inputClass}
+                value={config.apiKey || ''}
+                disabled={disabled}
+                onChange={(e) => update({ apiKey: e.target.value })}
+              />
+            </div>
+          </>
+        )}
+
+        {config.type === 'mock' && (
+          <p className="text-xs text-slate-500">Renders deterministic placeholder images locally. No API calls are made.</p>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,75 @@
+import React from 'react';
+import { QualitySettings } from '../types';
+
+interface QualityCheckSettingsProps {
+  settings: QualitySettings;
+  onChange: (settings: QualitySettings) => void;
+  uncheckedCount: number;
+  onCheckExisting: () => void;
+  disabled?: boolean;
+}
+
+const inputClass = "w-full px-3 py-2 bg-white border border-slate-200 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 outline-none transition-all disabled:opacity-50";
+
+export const QualityCheckSettings: React.FC<QualityCheckSettingsProps> = ({ settings, onChange, uncheckedCount, onCheckExisting, disabled = false }) => {
+  const update = (patch: Partial<QualitySettings>) => onChange({ ...settings, ...patch });
+
+  return (
+    <div className="glass-card p-6 rounded-2xl border border-slate-200 h-fit">
+      <h3 className="font-bold mb-4">Quality Check</h3>
+      <div className="space-y-3">
+        <label className="flex items-center gap-2 text-sm font-medium text-slate-600 cursor-pointer">
+          <input
+            type="checkbox"
+            className="rounded text-indigo-600 focus:ring-indigo-500"
+            checked={settings.enabled}
+            disabled={disabled}
+            onChange={(e) => update({ enabled: e.target.checked })}
+          />
+          Check every new image
+        </label>
+        <p className="text-xs text-slate-400">
+          A vision model looks for text, animals, a mismatch with the sentence and an off-style image, and scores the result.
+        </p>
+
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <label className="block text-xs font-semibold text-slate-400 mb-1 uppercase">Min Score</label>
+            <input
+              type="number"
+              min="0"
+              max="100"
+              className={inputClass}
+              disabled={disabled}
+              value={settings.minScore}
+              onChange={(e) => update({ minScore: Math.min(100, Math.max(0, Number(e.target.value))) })}
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-semibold text-slate-400 mb-1 uppercase">On Fail</label>
+            <select
+              className={inputClass}
+              disabled={disabled}
+              value={settings.onFail}
+              onChange={(e) => update({ onFail: e.target.value as QualitySettings['onFail'] })}
+            >
+              <option value="review">Flag for review</option>
+              <option value="regenerate">Regenerate</option>
+            </select>
+          </div>
+        </div>
+        {settings.onFail === 'regenerate' && (
+          <p className="text-xs text-slate-400">Regenerates up to the retry limit, then flags the last image for review.</p>
+        )}
+
+        <button
+          onClick={onCheckExisting}
+          disabled={disabled || uncheckedCount === 0}
+          className="w-full px-3 py-2 rounded-lg text-sm font-semibold bg-white border border-slate-200 hover:bg-slate-50 transition-all disabled:opacity-50"
+        >
+          Check {uncheckedCount} unchecked images
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,184 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { EnglishSentence, ImageMeta, ReviewStatus } from '../types';
+import { getImage } from '../services/dbService';
+import { QUALITY_FLAG_LABELS } from '../services/qualityService';
+import { REVIEW_LABELS } from '../services/reviewService';
+import { useObjectUrl } from './BlobImage';
+
+interface ReviewModeProps {
+  // Fixed when review mode opens, so decisions don't reshuffle the queue
+  ids: string[];
+  sentences: EnglishSentence[];
+  imageMeta: Record<string, ImageMeta>;
+  onReview: (id: string, review: ReviewStatus, note?: string) => void;
+  onClose: () => void;
+}
+
+const DECISIONS: { review: ReviewStatus; key: string; className: string }[] = [
+  { review: 'approved', key: 'A', className: 'bg-green-600 hover:bg-green-700 text-white' },
+  { review: 'rejected', key: 'X', className: 'bg-red-600 hover:bg-red-700 text-white' },
+  { review: 'needs_regeneration', key: 'R', className: 'bg-amber-500 hover:bg-amber-600 text-white' }
+];
+
+export const ReviewMode: React.FC<ReviewModeProps> = ({ ids, sentences, imageMeta, onReview, onClose }) => {
+  const [index, setIndex] = useState(0);
+  const [image, setImage] = useState<Blob | null>(null);
+  const imageUrl = useObjectUrl(image);
+  const [note, setNote] = useState('');
+  const noteRef = useRef<HTMLTextAreaElement>(null);
+
+  const id = ids[index];
+  const sentence = sentences.find(s => s.id === id);
+  const quality = id ? imageMeta[id]?.quality : undefined;
+  const isDone = index >= ids.length;
+
+  useEffect(() => {
+    if (!id) return;
+    let mounted = true;
+    setImage(null);
+    getImage(id)
+      .then(result => { if (mounted) setImage(result); })
+      .catch(e => console.error("Failed to load image for review", e));
+    return () => { mounted = false; };
+  }, [id]);
+
+  // Start from the note already on the sentence when revisiting it
+  useEffect(() => {
+    setNote(sentence?.reviewNote || '');
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [id]);
+
+  const go = (delta: number) => setIndex(prev => Math.min(ids.length, Math.max(0, prev + delta)));
+
+  const decide = (review: ReviewStatus) => {
+    if (!id) return;
+    onReview(id, review, note.trim());
+    go(1);
+  };
+
+  // Re-bound every render so the handlers see the current note and index
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const typing = e.target instanceof HTMLTextAreaElement || e.target instanceof HTMLInputElement;
+      if (e.key === 'Escape') {
+        if (typing) (e.target as HTMLElement).blur();
+        else onClose();
+        return;
+      }
+      if (typing || e.metaKey || e.ctrlKey || e.altKey) return;
+      const key = e.key.toLowerCase();
+      const decision = DECISIONS.find(d => d.key.toLowerCase() === key);
+      if (decision && !isDone) {
+        decide(decision.review);
+      } else if (key === 'arrowright' || key === 'n') {
+        go(1);
+      } else if (key === 'arrowleft' || key === 'p') {
+        go(-1);
+      } else if (key === 'e' && !isDone) {
+        noteRef.current?.focus();
+      } else {
+        return;
+      }
+      e.preventDefault();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  return (
+    <div className="fixed inset-0 z-[100] flex flex-col bg-slate-900 text-white">
+      <div className="flex items-center justify-between px-6 py-3 border-b border-white/10">
+        <div className="flex items-center gap-4">
+          <h3 className="font-bold">Review</h3>
+          <span className="text-sm text-white/60">{Math.min(index + 1, ids.length)} / {ids.length}</span>
+        </div>
+        <div className="flex items-center gap-4 text-xs text-white/50">
+          <span><kbd className="font-mono">←</kbd> / <kbd className="font-mono">→</kbd> previous / next</span>
+          <span><kbd className="font-mono">E</kbd> note</span>
+          <span><kbd className="font-mono">Esc</kbd> close</span>
+          <button
+            onClick={onClose}
+            className="p-2 bg-white/10 rounded-lg hover:bg-white/20 transition-colors"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" /></svg>
+          </button>
+        </div>
+      </div>
+
+      {isDone ? (
+        <div className="flex-1 flex flex-col items-center justify-center gap-4">
+          <p className="text-lg font-semibold">Nothing left to review here.</p>
+          <div className="flex gap-2">
+            {ids.length > 0 && (
+              <button onClick={() => go(-1)} className="px-4 py-2 rounded-lg text-sm font-semibold bg-white/10 hover:bg-white/20">
+                Back
+              </button>
+            )}
+            <button onClick={onClose} className="px-4 py-2 rounded-lg text-sm font-semibold bg-indigo-600 hover:bg-indigo-700">
+              Close
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="flex-1 flex min-h-0">
+          <div className="flex-1 flex items-center justify-center p-6 min-w-0">
+            {imageUrl ? (
+              <img src={imageUrl} alt={id} className="max-w-full max-h-full object-contain rounded-lg" />
+            ) : (
+              <div className="w-10 h-10 border-4 border-white/20 border-t-white rounded-full animate-spin" />
+            )}
+          </div>
+
+          <div className="w-96 shrink-0 border-l border-white/10 p-6 flex flex-col gap-4 overflow-y-auto">
+            <div>
+              <span className="font-mono text-xs px-2 py-1 bg-white/10 rounded">{id}</span>
+              {sentence?.review && (
+                <span className="ml-2 text-[10px] font-bold uppercase text-white/60">Currently {REVIEW_LABELS[sentence.review]}</span>
+              )}
+            </div>
+            <p className="text-xl font-medium leading-relaxed">{sentence?.english_text}</p>
+
+            {quality && (
+              <div className="text-xs text-white/70 space-y-1">
+                <div className="font-semibold">Quality {quality.score} / 100</div>
+                {quality.flags.map(flag => <div key={flag} className="text-amber-300">{QUALITY_FLAG_LABELS[flag]}</div>)}
+                {quality.notes && <div className="italic">{quality.notes}</div>}
+              </div>
+            )}
+
+            <div>
+              <label className="block text-xs font-semibold text-white/40 mb-1 uppercase">Note</label>
+              <textarea
+                ref={noteRef}
+                className="w-full h-24 px-3 py-2 bg-white/10 border border-white/10 rounded-lg text-sm text-white focus:ring-2 focus:ring-indigo-500 outline-none resize-none"
+                placeholder="What should change? (optional)"
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+              />
+            </div>
+
+            <div className="grid grid-cols-1 gap-2">
+              {DECISIONS.map(d => (
+                <button
+                  key={d.review}
+                  onClick={() => decide(d.review)}
+                  className={`px-4 py-3 rounded-xl font-semibold flex items-center justify-between transition-all active:scale-95 ${d.className}`}
+                >
+                  <span>{REVIEW_LABELS[d.review]}</span>
+                  <kbd className="font-mono text-xs px-2 py-0.5 bg-black/20 rounded">{d.key}</kbd>
+                </button>
+              ))}
+              <button
+                onClick={() => go(1)}
+                className="px-4 py-3 rounded-xl font-semibold flex items-center justify-between bg-white/10 hover:bg-white/20"
+              >
+                <span>Skip</span>
+                <kbd className="font-mono text-xs px-2 py-0.5 bg-black/20 rounded">→</kbd>
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,96 +1,287 @@
 
 import React, { useState, useEffect } from 'react';
-import { EnglishSentence } from '../types';
-import { getImage, deleteImage } from '../services/dbService';
+import { EnglishSentence, FieldDefinition, QualityCheck, ReviewStatus } from '../types';
+import { countVariants } from '../services/dbService';
+import { FAILURE_LABELS } from '../services/errorService';
+import { QUALITY_FLAG_LABELS } from '../services/qualityService';
+import { REVIEW_LABELS } from '../services/reviewService';
+import { getFieldValues } from '../services/fieldService';
+import { SentenceEdit } from '../services/sentenceEditService';
+import { loadThumbnail } from '../services/thumbnailService';
+import { useObjectUrl } from './BlobImage';
 
 interface SentenceItemProps {
   sentence: EnglishSentence;
+  // Lets a virtualized table measure the row
+  measureRef?: React.Ref<HTMLTableRowElement>;
   onDelete: (id: string) => void;
-  onView: (id: string, imageUrl: string) => void;
+  onView: (id: string) => void;
   version?: number;
+  // Changes when another image is selected for the sentence
+  imageVersion?: string;
+  showVisualPrompt?: boolean;
+  onVisualPromptChange?: (id: string, visualPrompt: string) => void;
+  onApproveVisualPrompt?: (id: string) => void;
+  isStyleReference?: boolean;
+  onToggleStyleReference?: (id: string) => void;
+  onRetryWithPrompt?: (id: string) => void;
+  quality?: QualityCheck;
+  onDismissReview?: (id: string) => void;
+  // Fields shown as their own columns, in order
+  fieldColumns?: FieldDefinition[];
+  onEdit?: (id: string, edit: SentenceEdit) => void;
+  // Called when editing is cancelled, so a freshly added blank row can be dropped
+  onCancelEdit?: (id: string) => void;
+  onDeleteSentence?: (id: string) => void;
+  onMove?: (id: string, offset: -1 | 1) => void;
+  // Opens the row in edit mode, for rows just added
+  startEditing?: boolean;
+  // An unsaved edit kept by the parent, so it survives the row scrolling out of the table
+  draft?: SentenceEdit;
+  onDraftChange?: (id: string, draft: SentenceEdit | null) => void;
 }
 
-export const SentenceItem: React.FC<SentenceItemProps> = ({ sentence, onDelete, onView, version = 0 }) => {
-  const [imageUrl, setImageUrl] = useState<string | undefined>(sentence.imageUrl);
-  const [status, setStatus] = useState(sentence.status);
-  const [isLoading, setIsLoading] = useState(false);
+const editInputClass = "w-full px-2 py-1 bg-white border border-slate-200 rounded-lg text-xs focus:ring-2 focus:ring-indigo-500 outline-none";
+const rowActionClass = "p-1 rounded text-slate-300 hover:text-slate-600 hover:bg-slate-100 transition-colors disabled:opacity-30 disabled:hover:bg-transparent";
 
-  // Load image on mount or when version changes
+const REVIEW_STYLES: Record<ReviewStatus, string> = {
+  approved: 'bg-green-50 text-green-600',
+  rejected: 'bg-red-50 text-red-600',
+  needs_regeneration: 'bg-amber-50 text-amber-600'
+};
+
+export const SentenceItem: React.FC<SentenceItemProps> = ({ sentence, measureRef, onDelete, onView, version = 0, imageVersion, showVisualPrompt = false, onVisualPromptChange, onApproveVisualPrompt, isStyleReference = false, onToggleStyleReference, onRetryWithPrompt, quality, onDismissReview, fieldColumns = [], onEdit, onCancelEdit, onDeleteSentence, onMove, startEditing = false, draft, onDraftChange }) => {
+  const [image, setImage] = useState<Blob | null>(null);
+  const imageUrl = useObjectUrl(image);
+  const status = sentence.status;
+  const [versionCount, setVersionCount] = useState(0);
+  const [promptDraft, setPromptDraft] = useState(sentence.visualPrompt || '');
+  const [isEditing, setIsEditing] = useState(startEditing || !!draft);
+  const [textDraft, setTextDraft] = useState(draft?.english_text ?? sentence.english_text);
+  const [fieldDrafts, setFieldDrafts] = useState<Record<string, string>>(draft?.fields ?? {});
+
+  const qualityTitle = quality
+    ? [`Quality score ${quality.score}`, ...quality.flags.map(flag => QUALITY_FLAG_LABELS[flag]), quality.notes].filter(Boolean).join('\n')
+    : '';
+
+  // Pick up prompts written by the prompt stage
   useEffect(() => {
-    let mounted = true;
-    const load = async () => {
-      // If we already have an image and version hasn't changed, skip.
-      // But if version changed, we should re-verify DB.
-      // Actually, if version changed, we should probably re-fetch even if we have an image?
-      // Yes, in case it was overwritten.
-      
-      setIsLoading(true);
-      try {
-        const stored = await getImage(sentence.id);
-        if (mounted) {
-          if (stored) {
-            setImageUrl(stored);
-            setStatus('completed');
-          } else {
-             // If status says completed but no image, revert to pending?
-             // Or keep as is.
-          }
-        }
-      } catch (e) {
-        console.error("Failed to load image for", sentence.id);
-      } finally {
-        if (mounted) setIsLoading(false);
-      }
-    };
-    
-    load();
-    
-    return () => { mounted = false; };
-  }, [sentence.id, version]); // Depend on version
+    setPromptDraft(sentence.visualPrompt || '');
+  }, [sentence.visualPrompt]);
+
+  const commitPromptDraft = () => {
+    const trimmed = promptDraft.trim();
+    if (trimmed !== (sentence.visualPrompt || '')) {
+      onVisualPromptChange?.(sentence.id, trimmed);
+    }
+  };
+
+  const beginEdit = () => {
+    if (!onEdit) return;
+    setTextDraft(sentence.english_text);
+    setFieldDrafts(Object.fromEntries(fieldColumns.map(f => [f.name, sentence.fields?.[f.name] || ''])));
+    setIsEditing(true);
+  };
 
-  // Update local state if prop changes (e.g. re-generation)
   useEffect(() => {
-    if (sentence.imageUrl) {
-      setImageUrl(sentence.imageUrl);
-      setStatus('completed');
-    } else {
-      // If prop clears image (e.g. delete from parent), reflect that.
-      // But only if we are syncing status too.
-      if (sentence.status !== 'completed' && imageUrl) {
-         setImageUrl(undefined);
-      }
+    if (isEditing) onDraftChange?.(sentence.id, { english_text: textDraft, fields: fieldDrafts });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isEditing, textDraft, fieldDrafts]);
+
+  const cancelEdit = () => {
+    setIsEditing(false);
+    onDraftChange?.(sentence.id, null);
+    onCancelEdit?.(sentence.id);
+  };
+
+  const saveEdit = () => {
+    const text = textDraft.trim();
+    if (!text) return;
+    const fields = { ...sentence.fields };
+    Object.entries<string>(fieldDrafts).forEach(([name, value]) => { fields[name] = value.trim(); });
+    const fieldsChanged = Object.keys(fieldDrafts).some(name => fields[name] !== (sentence.fields?.[name] || ''));
+    setIsEditing(false);
+    onDraftChange?.(sentence.id, null);
+    if (text !== sentence.english_text || fieldsChanged) {
+      onEdit?.(sentence.id, { english_text: text, fields: Object.keys(fields).length > 0 ? fields : undefined });
     }
-    if (sentence.status) {
-        setStatus(sentence.status);
+  };
+
+  const handleEditKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') cancelEdit();
+    else if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      saveEdit();
     }
-  }, [sentence, imageUrl]);
+  };
 
+  // Reload when the data changes underneath (backup import), when the image is generated or
+  // deleted (status) and when another version is selected
+  useEffect(() => {
+    let mounted = true;
+    Promise.all([loadThumbnail(sentence.id), countVariants(sentence.id)])
+      .then(([stored, versions]) => {
+        if (!mounted) return;
+        setImage(stored);
+        setVersionCount(versions);
+      })
+      .catch(() => console.error("Failed to load image for", sentence.id));
+    return () => { mounted = false; };
+  }, [sentence.id, version, status, imageVersion]);
 
   return (
-    <tr className="hover:bg-slate-50/50 transition-colors">
+    <tr ref={measureRef} className="hover:bg-slate-50/50 transition-colors">
       {/* ... (td id, td text) */}
-      <td className="px-6 py-4">
+      <td className="px-6 py-4 align-top">
         <span className="font-mono text-xs px-2 py-1 bg-slate-100 rounded text-slate-600">{sentence.id}</span>
+        {(onMove || onDeleteSentence) && !isEditing && (
+          <div className="mt-2 flex items-center gap-0.5">
+            {onMove && (
+              <>
+                <button onClick={() => onMove(sentence.id, -1)} className={rowActionClass} title="Move up">
+                  <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M5 15l7-7 7 7" /></svg>
+                </button>
+                <button onClick={() => onMove(sentence.id, 1)} className={rowActionClass} title="Move down">
+                  <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 9l-7 7-7-7" /></svg>
+                </button>
+              </>
+            )}
+            {onEdit && (
+              <button onClick={beginEdit} className={rowActionClass} title="Edit sentence">
+                <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M15.232 5.232l3.536 3.536M9 13l6.232-6.232a2.5 2.5 0 113.536 3.536L12.536 16.5 9 17l.5-3.5z" /></svg>
+              </button>
+            )}
+            {onDeleteSentence && (
+              <button
+                onClick={() => onDeleteSentence(sentence.id)}
+                disabled={status === 'processing'}
+                className={`${rowActionClass} hover:text-red-600 hover:bg-red-50`}
+                title="Delete sentence and its images"
+              >
+                <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" /></svg>
+              </button>
+            )}
+          </div>
+        )}
       </td>
       <td className="px-6 py-4">
-        <p className="text-sm font-medium text-slate-700 max-w-lg leading-relaxed">{sentence.english_text}</p>
+        {isEditing ? (
+          <div className="max-w-lg space-y-1">
+            <textarea
+              autoFocus
+              className="w-full h-16 px-3 py-2 bg-white border border-indigo-300 rounded-lg text-sm text-slate-700 focus:ring-2 focus:ring-indigo-500 outline-none resize-y"
+              placeholder="English sentence"
+              value={textDraft}
+              onChange={(e) => setTextDraft(e.target.value)}
+              onKeyDown={handleEditKeyDown}
+            />
+            <div className="flex items-center gap-2">
+              <button
+                onClick={saveEdit}
+                disabled={!textDraft.trim()}
+                className="px-2 py-1 rounded text-[10px] font-bold uppercase bg-indigo-600 text-white hover:bg-indigo-700 disabled:bg-slate-200 disabled:text-slate-400"
+              >
+                Save
+              </button>
+              <button onClick={cancelEdit} className="px-2 py-1 rounded text-[10px] font-bold uppercase text-slate-500 hover:bg-slate-100">
+                Cancel
+              </button>
+              {sentence.status === 'completed' && textDraft.trim() !== sentence.english_text && (
+                <span className="text-[10px] text-amber-600">The current image will be marked stale</span>
+              )}
+            </div>
+          </div>
+        ) : (
+          <p className="text-sm font-medium text-slate-700 max-w-lg leading-relaxed" onDoubleClick={beginEdit}>{sentence.english_text}</p>
+        )}
+        {sentence.review && (
+          <div className="mt-1 flex items-start gap-2 max-w-lg">
+            <span className={`shrink-0 text-[10px] font-bold uppercase px-2 py-0.5 rounded ${REVIEW_STYLES[sentence.review]}`}>
+              {REVIEW_LABELS[sentence.review]}
+            </span>
+            {sentence.reviewNote && <span className="text-xs italic text-slate-500">{sentence.reviewNote}</span>}
+          </div>
+        )}
+        {showVisualPrompt && (
+          <div className="mt-2 max-w-lg space-y-1">
+            <textarea
+              className="w-full h-16 px-3 py-2 bg-white border border-slate-200 rounded-lg text-xs text-slate-600 focus:ring-2 focus:ring-indigo-500 outline-none resize-y"
+              placeholder="Scene prompt (use Write Prompts or type one)"
+              value={promptDraft}
+              onChange={(e) => setPromptDraft(e.target.value)}
+              onBlur={commitPromptDraft}
+            />
+            {sentence.visualPromptStatus && (
+              <div className="flex items-center gap-2">
+                <span className={`text-[10px] font-bold uppercase px-2 py-0.5 rounded ${sentence.visualPromptStatus === 'approved' ? 'bg-green-50 text-green-600' : 'bg-amber-50 text-amber-600'}`}>
+                  {sentence.visualPromptStatus}
+                </span>
+                {sentence.visualPromptStatus === 'draft' && (
+                  <button
+                    onClick={() => onApproveVisualPrompt?.(sentence.id)}
+                    className="text-[10px] font-bold uppercase text-indigo-600 hover:text-indigo-800"
+                  >
+                    Approve
+                  </button>
+                )}
+              </div>
+            )}
+          </div>
+        )}
       </td>
+      {fieldColumns.map(field => (
+        <td key={field.name} className="px-4 py-4 text-xs text-slate-600">
+          {isEditing ? (
+            <input
+              className={`${editInputClass} ${field.type === 'number' ? 'font-mono' : ''}`}
+              placeholder={field.type === 'tags' ? 'a, b, c' : field.name}
+              value={fieldDrafts[field.name] ?? ''}
+              onChange={(e) => setFieldDrafts(prev => ({ ...prev, [field.name]: e.target.value }))}
+              onKeyDown={handleEditKeyDown}
+            />
+          ) : field.type === 'tags' ? (
+            <div className="flex flex-wrap gap-1">
+              {getFieldValues(sentence, field).map(tag => (
+                <span key={tag} className="px-2 py-0.5 bg-slate-100 rounded-full">{tag}</span>
+              ))}
+            </div>
+          ) : (
+            <span className={field.type === 'number' ? 'font-mono' : ''}>{sentence.fields?.[field.name]}</span>
+          )}
+        </td>
+      ))}
       <td className="px-6 py-4">
         {imageUrl ? (
+          <>
           <div className="relative w-20 h-20 group">
             <img 
               src={imageUrl} 
               alt={sentence.id} 
-              className="w-full h-full object-cover rounded-lg shadow-sm border border-slate-100" 
+              className={`w-full h-full object-cover rounded-lg shadow-sm border ${isStyleReference ? 'border-amber-400 ring-2 ring-amber-300' : 'border-slate-100'}`}
             />
+            {sentence.stale && (
+              <span className="absolute -top-2 -left-2 text-[10px] font-bold uppercase px-1.5 py-0.5 rounded shadow bg-amber-100 text-amber-700 cursor-help" title="The sentence or a field used in the prompt changed after this image was generated">Stale</span>
+            )}
+            {isStyleReference && (
+              <span className="absolute -top-2 -right-2 w-5 h-5 bg-amber-400 text-white rounded-full flex items-center justify-center text-xs shadow" title="Style reference">★</span>
+            )}
             <div className="absolute inset-0 bg-black/0 group-hover:bg-black/40 transition-all rounded-lg flex items-center justify-center opacity-0 group-hover:opacity-100 gap-2">
               <button 
-                onClick={() => onView(sentence.id, imageUrl)}
+                onClick={() => onView(sentence.id)}
                 className="p-1 bg-white rounded-full shadow-lg hover:bg-slate-100 transition-colors" 
                 title="View"
               >
                 <svg className="w-4 h-4 text-slate-800" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" /><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z" /></svg>
               </button>
+              {onToggleStyleReference && (
+                <button
+                  onClick={() => onToggleStyleReference(sentence.id)}
+                  className={`p-1 bg-white rounded-full shadow-lg hover:bg-amber-50 transition-colors ${isStyleReference ? 'text-amber-500' : 'text-slate-800'}`}
+                  title={isStyleReference ? "Remove Style Reference" : "Use as Style Reference"}
+                >
+                  <svg className="w-4 h-4" fill={isStyleReference ? 'currentColor' : 'none'} stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M11.049 2.927c.3-.921 1.603-.921 1.902 0l1.519 4.674a1 1 0 00.95.69h4.915c.969 0 1.371 1.24.588 1.81l-3.976 2.888a1 1 0 00-.363 1.118l1.518 4.674c.3.922-.755 1.688-1.538 1.118l-3.976-2.888a1 1 0 00-1.176 0l-3.976 2.888c-.783.57-1.838-.197-1.538-1.118l1.518-4.674a1 1 0 00-.363-1.118l-3.976-2.888c-.784-.57-.38-1.81.588-1.81h4.914a1 1 0 00.951-.69l1.519-4.674z" /></svg>
+                </button>
+              )}
               <button 
                 onClick={() => onDelete(sentence.id)}
                 className="p-1 bg-white rounded-full shadow-lg hover:bg-red-50 text-red-600 transition-colors"
@@ -99,7 +290,41 @@ export const SentenceItem: React.FC<SentenceItemProps> = ({ sentence, onDelete,
                 <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" /></svg>
               </button>
             </div>
+            {sentence.flaggedForReview ? (
+              <button
+                onClick={() => onDismissReview?.(sentence.id)}
+                className="absolute -bottom-2 -left-2 text-[10px] font-bold uppercase px-1.5 py-0.5 rounded shadow bg-amber-500 text-white hover:bg-amber-600"
+                title={`${qualityTitle}\nClick to mark as reviewed`}
+              >
+                Review{quality ? ` ${quality.score}` : ''}
+              </button>
+            ) : quality && (
+              <span
+                className="absolute -bottom-2 -left-2 text-[10px] font-bold px-1.5 py-0.5 rounded shadow bg-white text-slate-600 cursor-help"
+                title={qualityTitle}
+              >
+                {quality.score}
+              </span>
+            )}
           </div>
+          {status === 'error' && (
+            // The last regeneration failed; the image shown is the earlier one
+            <div className="w-20 mt-3 flex flex-col items-center gap-1">
+              <span className="text-[10px] font-bold text-red-600 uppercase text-center cursor-help" title={sentence.error}>
+                {FAILURE_LABELS[sentence.errorKind || 'unknown']}
+              </span>
+              {onRetryWithPrompt && (
+                <button
+                  onClick={() => onRetryWithPrompt(sentence.id)}
+                  className="text-[10px] font-bold text-indigo-600 hover:text-indigo-800 uppercase"
+                  title="Edit the prompt and try again"
+                >
+                  Retry…
+                </button>
+              )}
+            </div>
+          )}
+          </>
         ) : (
           <div className={`w-20 h-20 rounded-lg border-2 border-dashed border-slate-200 flex flex-col items-center justify-center gap-1 ${status === 'processing' ? 'animate-pulse bg-indigo-50 border-indigo-200' : 'bg-slate-50'}`}>
               {status === 'processing' ? (
@@ -107,7 +332,31 @@ export const SentenceItem: React.FC<SentenceItemProps> = ({ sentence, onDelete,
               ) : (
                 <svg className="w-6 h-6 text-slate-300" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" /></svg>
               )}
-              <span className="text-[10px] font-bold text-slate-400 uppercase">{status}</span>
+              {status === 'error' ? (
+                <span className="text-[10px] font-bold text-red-600 uppercase text-center px-1 cursor-help" title={sentence.error}>
+                  {FAILURE_LABELS[sentence.errorKind || 'unknown']}
+                </span>
+              ) : (
+                <span className="text-[10px] font-bold text-slate-400 uppercase">{status}</span>
+              )}
+              {status === 'error' && onRetryWithPrompt && (
+                <button
+                  onClick={() => onRetryWithPrompt(sentence.id)}
+                  className="text-[10px] font-bold text-indigo-600 hover:text-indigo-800 uppercase"
+                  title="Edit the prompt and try again"
+                >
+                  Retry…
+                </button>
+              )}
+              {versionCount > 0 && status !== 'processing' && (
+                <button
+                  onClick={() => onView(sentence.id)}
+                  className="text-[10px] font-bold text-indigo-600 hover:text-indigo-800 uppercase"
+                  title="Restore an earlier version"
+                >
+                  History ({versionCount})
+                </button>
+              )}
           </div>
         )}
       </td>
@@ -0,0 +1,74 @@
+import React, { useEffect, useState } from 'react';
+import { MAX_STYLE_REFERENCES } from '../services/styleReferenceService';
+import { loadThumbnail } from '../services/thumbnailService';
+import { BlobImage } from './BlobImage';
+
+interface StyleReferenceGalleryProps {
+  ids: string[];
+  version: number;
+  onRemove: (id: string) => void;
+  onView: (id: string) => void;
+  // False when the active provider can't take image inputs
+  supported: boolean;
+}
+
+export const StyleReferenceGallery: React.FC<StyleReferenceGalleryProps> = ({ ids, version, onRemove, onView, supported }) => {
+  const [images, setImages] = useState<Map<string, Blob>>(new Map());
+
+  useEffect(() => {
+    let mounted = true;
+    Promise.all(ids.map(async id => [id, await loadThumbnail(id)] as const))
+      .then(entries => { if (mounted) setImages(new Map(entries.filter((entry): entry is [string, Blob] => !!entry[1]))); })
+      .catch(e => console.error("Failed to load style references", e));
+    return () => { mounted = false; };
+  }, [ids, version]);
+
+  return (
+    <div className="glass-card p-6 rounded-2xl border border-slate-200 h-fit">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="font-bold">Style References</h3>
+        <span className="text-xs font-mono text-slate-400">{ids.length} / {MAX_STYLE_REFERENCES}</span>
+      </div>
+      {!supported && (
+        <p className="text-xs p-2 mb-3 rounded-lg bg-amber-50 text-amber-700">
+          The current image provider can't take image inputs, so these references are not sent. Switch to Gemini to use them.
+        </p>
+      )}
+      {ids.length === 0 ? (
+        <p className="text-xs text-slate-400">
+          Mark generated images with the star to send them with every request as a style reference.
+        </p>
+      ) : (
+        <div className="grid grid-cols-3 gap-2">
+          {ids.map(id => {
+            const image = images.get(id);
+            return (
+              <div key={id} className="relative group aspect-square">
+                {image ? (
+                  <BlobImage
+                    blob={image}
+                    alt={id}
+                    onClick={() => onView(id)}
+                    className="w-full h-full object-cover rounded-lg border border-slate-100 cursor-pointer"
+                  />
+                ) : (
+                  <div className="w-full h-full rounded-lg border-2 border-dashed border-slate-200 bg-slate-50 flex items-center justify-center">
+                    <span className="text-[10px] font-bold text-slate-400 uppercase">Missing</span>
+                  </div>
+                )}
+                <button
+                  onClick={() => onRemove(id)}
+                  className="absolute -top-1 -right-1 w-5 h-5 bg-white rounded-full shadow text-xs text-slate-500 hover:text-red-600 opacity-0 group-hover:opacity-100 transition-opacity"
+                  title="Remove Style Reference"
+                >
+                  ×
+                </button>
+                <span className="absolute bottom-1 left-1 font-mono text-[10px] px-1 bg-white/80 rounded text-slate-600">{id}</span>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
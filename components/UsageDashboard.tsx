@@ -0,0 +1,186 @@
+import React, { useMemo, useState } from 'react';
+import { Project, UnitPrice, UsageRecord, UsageSettings } from '../types';
+import { ZERO_PRICE, estimateCost, getDayKey, getPeriodSpend } from '../services/usageService';
+
+interface UsageDashboardProps {
+  records: UsageRecord[];
+  projects: Project[];
+  settings: UsageSettings;
+  onSettingsChange: (settings: UsageSettings) => void;
+  onClear: () => void;
+}
+
+interface Totals {
+  calls: number;
+  failed: number;
+  images: number;
+  cost: number;
+}
+
+const DAYS_SHOWN = 7;
+
+const emptyTotals = (): Totals => ({ calls: 0, failed: 0, images: 0, cost: 0 });
+
+const formatUsd = (value: number) => `$${value < 10 ? value.toFixed(3) : value.toFixed(2)}`;
+
+const inputClass = "w-full px-2 py-1 bg-white border border-slate-200 rounded-lg text-xs focus:ring-2 focus:ring-indigo-500 outline-none";
+
+export const UsageDashboard: React.FC<UsageDashboardProps> = ({ records, projects, settings, onSettingsChange, onClear }) => {
+  const [showSettings, setShowSettings] = useState(false);
+
+  const { byDay, byProject, models } = useMemo(() => {
+    const byDay = new Map<string, Totals>();
+    const byProject = new Map<string, Totals>();
+    const models = new Set(Object.keys(settings.prices));
+    for (const record of records) {
+      const cost = estimateCost(record, settings.prices);
+      for (const [map, key] of [[byDay, getDayKey(record.timestamp)], [byProject, record.projectId]] as const) {
+        const totals = map.get(key) || emptyTotals();
+        totals.calls++;
+        if (!record.success) totals.failed++;
+        totals.images += record.images;
+        totals.cost += cost;
+        map.set(key, totals);
+      }
+      models.add(record.model);
+    }
+    return { byDay, byProject, models: Array.from(models).sort() };
+  }, [records, settings.prices]);
+
+  const days = Array.from({ length: DAYS_SHOWN }, (_, i) => getDayKey(Date.now() - i * 86400000));
+  const periodSpend = getPeriodSpend(records, settings);
+  const budgetPercent = settings.budgetUsd > 0 ? Math.min(100, (periodSpend / settings.budgetUsd) * 100) : 0;
+  const projectName = (id: string) => projects.find(p => p.id === id)?.name || 'Deleted project';
+
+  const updatePrice = (model: string, patch: Partial<UnitPrice>) => {
+    onSettingsChange({
+      ...settings,
+      prices: { ...settings.prices, [model]: { ...(settings.prices[model] || ZERO_PRICE), ...patch } }
+    });
+  };
+
+  return (
+    <div className="glass-card p-6 rounded-2xl border border-slate-200 h-fit">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="font-bold">Usage</h3>
+        <button
+          onClick={() => setShowSettings(prev => !prev)}
+          className="text-xs font-semibold text-indigo-600 hover:text-indigo-800"
+        >
+          {showSettings ? 'Done' : 'Prices & Budget'}
+        </button>
+      </div>
+
+      <div className="space-y-4 text-sm">
+        {settings.budgetUsd > 0 && (
+          <div>
+            <div className="flex justify-between text-xs mb-1">
+              <span className="text-slate-500">Budget this {settings.budgetPeriod}</span>
+              <span className={`font-bold ${periodSpend >= settings.budgetUsd ? 'text-red-600' : 'text-slate-700'}`}>
+                {formatUsd(periodSpend)} / {formatUsd(settings.budgetUsd)}
+              </span>
+            </div>
+            <div className="w-full bg-slate-100 rounded-full h-1.5 overflow-hidden">
+              <div
+                className={`h-full transition-all duration-500 ${budgetPercent >= 100 ? 'bg-red-500' : budgetPercent >= 80 ? 'bg-amber-500' : 'bg-indigo-600'}`}
+                style={{ width: `${budgetPercent}%` }}
+              />
+            </div>
+          </div>
+        )}
+
+        <div>
+          <div className="text-xs font-semibold text-slate-400 uppercase mb-1">Last {DAYS_SHOWN} days</div>
+          <table className="w-full text-xs">
+            <tbody>
+              {days.map(day => {
+                const totals = byDay.get(day) || emptyTotals();
+                return (
+                  <tr key={day} className={totals.calls === 0 ? 'text-slate-300' : 'text-slate-600'}>
+                    <td className="py-0.5 font-mono">{day.slice(5)}</td>
+                    <td className="py-0.5 text-right">{totals.images} img</td>
+                    <td className="py-0.5 text-right" title={`${totals.calls} calls`}>{totals.failed > 0 ? <span className="text-red-500">{totals.failed} failed</span> : ''}</td>
+                    <td className="py-0.5 text-right font-semibold">{formatUsd(totals.cost)}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        {byProject.size > 0 && (
+          <div>
+            <div className="text-xs font-semibold text-slate-400 uppercase mb-1">By project (all time)</div>
+            <table className="w-full text-xs">
+              <tbody>
+                {Array.from(byProject.entries()).map(([id, totals]) => (
+                  <tr key={id} className="text-slate-600">
+                    <td className="py-0.5 truncate max-w-[8rem]">{projectName(id)}</td>
+                    <td className="py-0.5 text-right">{totals.images} img</td>
+                    <td className="py-0.5 text-right font-semibold">{formatUsd(totals.cost)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {showSettings && (
+          <div className="space-y-3 pt-3 border-t border-slate-100">
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <label className="block text-[10px] font-semibold text-slate-400 mb-1 uppercase">Budget (USD)</label>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.5"
+                  className={inputClass}
+                  value={settings.budgetUsd}
+                  onChange={(e) => onSettingsChange({ ...settings, budgetUsd: Math.max(0, Number(e.target.value)) })}
+                />
+              </div>
+              <div>
+                <label className="block text-[10px] font-semibold text-slate-400 mb-1 uppercase">Per</label>
+                <select
+                  className={inputClass}
+                  value={settings.budgetPeriod}
+                  onChange={(e) => onSettingsChange({ ...settings, budgetPeriod: e.target.value as UsageSettings['budgetPeriod'] })}
+                >
+                  <option value="day">Day</option>
+                  <option value="month">Month</option>
+                </select>
+              </div>
+            </div>
+            <p className="text-[10px] text-slate-400">0 turns the cap off. When reached, the batch pauses until you raise it and resume.</p>
+
+            <div className="space-y-2">
+              <div className="text-[10px] font-semibold text-slate-400 uppercase">Unit prices (USD)</div>
+              {models.map(model => {
+                const price = settings.prices[model] || ZERO_PRICE;
+                return (
+                  <div key={model} className="space-y-1">
+                    <div className="font-mono text-[10px] text-slate-600 truncate" title={model}>{model}</div>
+                    <div className="grid grid-cols-3 gap-1">
+                      <input type="number" min="0" step="0.001" className={inputClass} title="Per image" value={price.perImageUsd} onChange={(e) => updatePrice(model, { perImageUsd: Math.max(0, Number(e.target.value)) })} />
+                      <input type="number" min="0" step="0.01" className={inputClass} title="Per 1M input tokens" value={price.inputPerMillionUsd} onChange={(e) => updatePrice(model, { inputPerMillionUsd: Math.max(0, Number(e.target.value)) })} />
+                      <input type="number" min="0" step="0.01" className={inputClass} title="Per 1M output tokens" value={price.outputPerMillionUsd} onChange={(e) => updatePrice(model, { outputPerMillionUsd: Math.max(0, Number(e.target.value)) })} />
+                    </div>
+                  </div>
+                );
+              })}
+              <p className="text-[10px] text-slate-400">Per image · per 1M input tokens · per 1M output tokens. Costs are estimates.</p>
+            </div>
+
+            <button
+              onClick={onClear}
+              disabled={records.length === 0}
+              className="w-full px-3 py-2 rounded-lg text-xs font-semibold text-red-600 hover:bg-red-50 disabled:opacity-50"
+            >
+              Clear usage log
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,50 @@
+import React, { useEffect } from 'react';
+import { useVirtualWindow } from './useVirtualWindow';
+
+interface VirtualTableProps<T> {
+  rows: T[];
+  getKey: (row: T) => string;
+  estimateRowHeight: number;
+  columnCount: number;
+  // The header row, kept in view while scrolling
+  header: React.ReactNode;
+  // `measureRef` goes on the row's <tr> so its real height is used
+  renderRow: (row: T, measureRef: (element: HTMLElement | null) => (() => void) | void) => React.ReactNode;
+  // Scrolled into view when it changes, e.g. a row that was just added
+  scrollToKey?: string | null;
+  className?: string;
+}
+
+export const VirtualTable = <T,>({ rows, getKey, estimateRowHeight, columnCount, header, renderRow, scrollToKey, className }: VirtualTableProps<T>) => {
+  const { scrollRef, start, end, paddingTop, paddingBottom, measureRef, scrollToIndex } = useVirtualWindow({
+    count: rows.length,
+    getKey: index => getKey(rows[index]),
+    estimateSize: estimateRowHeight
+  });
+
+  useEffect(() => {
+    if (!scrollToKey) return;
+    const index = rows.findIndex(row => getKey(row) === scrollToKey);
+    if (index !== -1) scrollToIndex(index);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [scrollToKey]);
+
+  return (
+    <div ref={scrollRef} className={className}>
+      <table className="w-full text-left border-collapse">
+        <thead className="sticky top-0 bg-slate-50 border-b border-slate-200 z-10">
+          {header}
+        </thead>
+        <tbody className="divide-y divide-slate-100">
+          {paddingTop > 0 && <tr style={{ height: paddingTop }}><td colSpan={columnCount} /></tr>}
+          {rows.slice(start, end).map(row => (
+            <React.Fragment key={getKey(row)}>
+              {renderRow(row, measureRef(getKey(row)))}
+            </React.Fragment>
+          ))}
+          {paddingBottom > 0 && <tr style={{ height: paddingBottom }}><td colSpan={columnCount} /></tr>}
+        </tbody>
+      </table>
+    </div>
+  );
+};
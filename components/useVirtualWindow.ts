@@ -0,0 +1,118 @@
+import React, { useCallback, useEffect, useLayoutEffect, useRef, useState } from 'react';
+
+interface VirtualWindowOptions {
+  count: number;
+  getKey: (index: number) => string;
+  // Height used until a row is measured; rows that are never measured keep it
+  estimateSize: number;
+  // Extra pixels rendered above and below the viewport so fast scrolling shows no gaps
+  overscan?: number;
+}
+
+export interface VirtualWindow {
+  scrollRef: React.RefObject<HTMLDivElement | null>;
+  // Rows [start, end) are mounted; the padding stands in for the rest
+  start: number;
+  end: number;
+  paddingTop: number;
+  paddingBottom: number;
+  viewportWidth: number;
+  // Ref for a mounted row so its real height replaces the estimate
+  measureRef: (key: string) => (element: HTMLElement | null) => (() => void) | void;
+  scrollToIndex: (index: number) => void;
+}
+
+// Mounts only the rows in and near the viewport of a scroll container
+export const useVirtualWindow = ({ count, getKey, estimateSize, overscan = 600 }: VirtualWindowOptions): VirtualWindow => {
+  const scrollRef = useRef<HTMLDivElement | null>(null);
+  const sizesRef = useRef(new Map<string, number>());
+  const measureRefs = useRef(new Map<string, (element: HTMLElement | null) => (() => void) | void>());
+  const observerRef = useRef<ResizeObserver | null>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewport, setViewport] = useState({ width: 0, height: 0 });
+  const [, setMeasureVersion] = useState(0);
+
+  useLayoutEffect(() => {
+    const element = scrollRef.current;
+    if (!element) return;
+    let frame = 0;
+    const handleScroll = () => {
+      if (frame) return;
+      frame = requestAnimationFrame(() => {
+        frame = 0;
+        setScrollTop(element.scrollTop);
+      });
+    };
+    const resizeObserver = new ResizeObserver(() => setViewport({ width: element.clientWidth, height: element.clientHeight }));
+    setViewport({ width: element.clientWidth, height: element.clientHeight });
+    setScrollTop(element.scrollTop);
+    element.addEventListener('scroll', handleScroll, { passive: true });
+    resizeObserver.observe(element);
+    return () => {
+      cancelAnimationFrame(frame);
+      element.removeEventListener('scroll', handleScroll);
+      resizeObserver.disconnect();
+    };
+  }, []);
+
+  useEffect(() => {
+    observerRef.current = new ResizeObserver(entries => {
+      let changed = false;
+      for (const entry of entries) {
+        const key = (entry.target as HTMLElement).dataset.virtualKey;
+        const height = entry.target.getBoundingClientRect().height;
+        if (key && height > 0 && sizesRef.current.get(key) !== height) {
+          sizesRef.current.set(key, height);
+          changed = true;
+        }
+      }
+      if (changed) setMeasureVersion(prev => prev + 1);
+    });
+    return () => observerRef.current?.disconnect();
+  }, []);
+
+  // One stable callback per key, so React only attaches it when the row mounts
+  const measureRef = useCallback((key: string) => {
+    let ref = measureRefs.current.get(key);
+    if (!ref) {
+      ref = (element: HTMLElement | null) => {
+        if (!element) return;
+        element.dataset.virtualKey = key;
+        observerRef.current?.observe(element);
+        return () => {
+          observerRef.current?.unobserve(element);
+          measureRefs.current.delete(key);
+        };
+      };
+      measureRefs.current.set(key, ref);
+    }
+    return ref;
+  }, []);
+
+  const sizeAt = (index: number) => sizesRef.current.get(getKey(index)) ?? estimateSize;
+
+  const top = Math.max(0, scrollTop - overscan);
+  const bottom = scrollTop + viewport.height + overscan;
+  let offset = 0;
+  let start = 0;
+  while (start < count && offset + sizeAt(start) <= top) {
+    offset += sizeAt(start);
+    start++;
+  }
+  const paddingTop = offset;
+  let end = start;
+  while (end < count && offset < bottom) {
+    offset += sizeAt(end);
+    end++;
+  }
+  let paddingBottom = 0;
+  for (let i = end; i < count; i++) paddingBottom += sizeAt(i);
+
+  const scrollToIndex = (index: number) => {
+    let target = 0;
+    for (let i = 0; i < Math.min(index, count); i++) target += sizeAt(i);
+    if (scrollRef.current) scrollRef.current.scrollTop = target;
+  };
+
+  return { scrollRef, start, end, paddingTop, paddingBottom, viewportWidth: viewport.width, measureRef, scrollToIndex };
+};
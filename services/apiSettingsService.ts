@@ -0,0 +1,29 @@
+import { GeminiSettings } from '../types';
+
+const GEMINI_SETTINGS_KEY = 'english-visualizer.gemini';
+
+export const DEFAULT_GEMINI_SETTINGS: GeminiSettings = {
+  apiKey: '',
+  textModel: 'gemini-3-flash-preview',
+  imageModel: 'gemini-2.5-flash-image'
+};
+
+// The key only ever lives in this browser's local storage; it is never bundled or exported
+export const loadGeminiSettings = (): GeminiSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(GEMINI_SETTINGS_KEY) || '{}') as Partial<GeminiSettings>;
+    return {
+      apiKey: stored.apiKey || DEFAULT_GEMINI_SETTINGS.apiKey,
+      textModel: stored.textModel || DEFAULT_GEMINI_SETTINGS.textModel,
+      imageModel: stored.imageModel || DEFAULT_GEMINI_SETTINGS.imageModel
+    };
+  } catch {
+    return DEFAULT_GEMINI_SETTINGS;
+  }
+};
+
+export const saveGeminiSettings = (settings: GeminiSettings) => {
+  localStorage.setItem(GEMINI_SETTINGS_KEY, JSON.stringify(settings));
+};
+
+export const hasGeminiApiKey = (): boolean => loadGeminiSettings().apiKey !== '';
@@ -1,5 +1,68 @@
-import { iterateImages, saveImage, getAllKeys } from './dbService';
-import { EnglishSentence } from '../types';
+import { iterateImages, saveImages, getAllKeys, getAllImageMeta, saveImageMeta, deleteImageMeta } from './dbService';
+import { blobToDataUrl, dataUrlToBlob } from './blobService';
+import { saveThumbnailsFor } from './thumbnailService';
+import { EnglishSentence, Project, ImageMeta, FieldDefinition } from '../types';
+import { getProjectSlug } from './projectService';
+
+const toSentenceRecord = (s: EnglishSentence) => ({
+  type: 'sentence',
+  id: s.id,
+  text: s.english_text,
+  visualPrompt: s.visualPrompt,
+  visualPromptStatus: s.visualPromptStatus,
+  fields: s.fields,
+  flaggedForReview: s.flaggedForReview,
+  review: s.review,
+  reviewNote: s.reviewNote,
+  reviewedAt: s.reviewedAt,
+  stale: s.stale
+});
+
+const fromSentenceRecord = (data: any): EnglishSentence => ({
+  id: data.id,
+  english_text: data.text,
+  status: 'pending',
+  visualPrompt: data.visualPrompt,
+  visualPromptStatus: data.visualPromptStatus,
+  fields: data.fields,
+  flaggedForReview: data.flaggedForReview,
+  review: data.review,
+  reviewNote: data.reviewNote,
+  reviewedAt: data.reviewedAt,
+  stale: data.stale
+});
+
+// Images stay data URLs in the file, so backups from before Blob storage read the same way
+const toImageRecord = async (id: string, image: Blob, meta?: ImageMeta) => {
+  const base64 = await blobToDataUrl(image);
+  if (!meta) return { type: 'image', id, base64 };
+  // Variants stay local, so the selection pointer is meaningless elsewhere
+  const { id: _, variantId, ...details } = meta;
+  return { type: 'image', id, base64, meta: details };
+};
+
+interface RestoredImage {
+  id: string;
+  image: Blob;
+  meta?: Omit<ImageMeta, 'id'>;
+}
+
+const RESTORE_BATCH_SIZE = 50;
+
+const toRestoredImage = (data: any): RestoredImage => ({ id: data.id, image: dataUrlToBlob(data.base64), meta: data.meta });
+
+// Restored images replace the local ones, so any metadata for the old images has to go
+const restoreImages = async (images: RestoredImage[]): Promise<void> => {
+  await saveImages(images);
+  await saveThumbnailsFor(images);
+  for (const { id, meta } of images) {
+    if (meta) {
+      await saveImageMeta({ ...meta, id });
+    } else {
+      await deleteImageMeta(id);
+    }
+  }
+};
 
 // Helper to check for File System Access API support
 export const supportsFileSystemAccess = (): boolean => {
@@ -8,9 +71,12 @@ export const supportsFileSystemAccess = (): boolean => {
 
 export const exportBackup = async (
   sentences: EnglishSentence[], 
-  onProgress?: (progress: number) => void
+  onProgress?: (progress: number) => void,
+  project?: Project,
+  fieldDefinitions: FieldDefinition[] = []
 ): Promise<void> => {
   const keys = await getAllKeys();
+  const metaById = new Map((await getAllImageMeta()).map(meta => [meta.id, meta]));
   const totalImages = keys.length;
   const totalItems = sentences.length + totalImages;
   let processed = 0;
@@ -18,7 +84,8 @@ export const exportBackup = async (
   console.log(`Exporting ${sentences.length} sentences and ${totalImages} images.`);
 
   // Header
-  const header = { type: 'header', version: 2, created: new Date().toISOString(), count: totalImages };
+  const header = { type: 'header', version: 3, created: new Date().toISOString(), count: totalImages, project: project?.name, fields: fieldDefinitions };
+  const fileName = `english_visualizer_backup_${project ? `${getProjectSlug(project)}_` : ''}${new Date().toISOString().split('T')[0]}.evb`;
   const headerStr = JSON.stringify(header) + '\n';
 
   const reportProgress = () => {
@@ -33,7 +100,7 @@ export const exportBackup = async (
     try {
       // @ts-ignore
       const handle = await window.showSaveFilePicker({
-        suggestedName: `english_visualizer_backup_${new Date().toISOString().split('T')[0]}.evb`,
+        suggestedName: fileName,
         types: [{
           description: 'English Visualizer Backup',
           accept: { 'application/x-jsonlines': ['.evb'] },
@@ -45,15 +112,15 @@ export const exportBackup = async (
 
       // 1. Write Sentences
       for (const s of sentences) {
-        const record = { type: 'sentence', id: s.id, text: s.english_text };
+        const record = toSentenceRecord(s);
         await writable.write(JSON.stringify(record) + '\n');
         processed++;
         reportProgress();
       }
 
       // 2. Write Images
-      await iterateImages(async (id, base64) => {
-        const record = { type: 'image', id, base64 };
+      await iterateImages(async (id, image) => {
+        const record = await toImageRecord(id, image, metaById.get(id));
         await writable.write(JSON.stringify(record) + '\n');
         processed++;
         reportProgress();
@@ -74,14 +141,14 @@ export const exportBackup = async (
   chunks.push(headerStr);
 
   for (const s of sentences) {
-    const record = { type: 'sentence', id: s.id, text: s.english_text };
+    const record = toSentenceRecord(s);
     chunks.push(JSON.stringify(record) + '\n');
     processed++;
     reportProgress();
   }
 
-  await iterateImages((id, base64) => {
-    const record = { type: 'image', id, base64 };
+  await iterateImages(async (id, image) => {
+    const record = await toImageRecord(id, image, metaById.get(id));
     chunks.push(JSON.stringify(record) + '\n');
     processed++;
     reportProgress();
@@ -91,7 +158,7 @@ export const exportBackup = async (
   const url = URL.createObjectURL(blob);
   const a = document.createElement('a');
   a.href = url;
-  a.download = `english_visualizer_backup_${new Date().toISOString().split('T')[0]}.evb`;
+  a.download = fileName;
   a.click();
   URL.revokeObjectURL(url);
   console.log("Export via Blob completed.");
@@ -100,7 +167,7 @@ export const exportBackup = async (
 export const importBackup = async (
   file: File, 
   onProgress?: (progress: number) => void
-): Promise<{ imageCount: number; restoredSentences: EnglishSentence[]; legacyImageIds: string[] }> => {
+): Promise<{ imageCount: number; restoredSentences: EnglishSentence[]; legacyImageIds: string[]; fieldDefinitions: FieldDefinition[] }> => {
   const stream = file.stream();
   const reader = stream.getReader();
   const decoder = new TextDecoder();
@@ -109,6 +176,14 @@ export const importBackup = async (
   let imageCount = 0;
   const restoredSentences: EnglishSentence[] = [];
   const legacyImageIds: string[] = [];
+  // Images are written a batch at a time
+  let pending: RestoredImage[] = [];
+  const flush = async () => {
+    await restoreImages(pending);
+    pending = [];
+  };
+  // Older backups have no field types; those fields come back as text
+  let fieldDefinitions: FieldDefinition[] = [];
   
   const totalBytes = file.size;
   let processedBytes = 0;
@@ -131,26 +206,25 @@ export const importBackup = async (
         try {
           const data = JSON.parse(line);
           
-          if (data.type === 'sentence') {
-            restoredSentences.push({
-              id: data.id,
-              english_text: data.text,
-              status: 'pending'
-            });
+          if (data.type === 'header') {
+            fieldDefinitions = data.fields || [];
+          } else if (data.type === 'sentence') {
+            restoredSentences.push(fromSentenceRecord(data));
           } else if (data.type === 'image') {
              if (data.id && data.base64) {
-               await saveImage(data.id, data.base64);
+               pending.push(toRestoredImage(data));
                imageCount++;
              }
           } else if (data.id && data.base64) {
              // Legacy format (no type field)
-             await saveImage(data.id, data.base64);
+             pending.push(toRestoredImage(data));
              imageCount++;
              legacyImageIds.push(data.id);
           }
         } catch (e) {
           console.warn("Error parsing line during import:", e);
         }
+        if (pending.length >= RESTORE_BATCH_SIZE) await flush();
       }
 
       if (onProgress) {
@@ -163,21 +237,22 @@ export const importBackup = async (
       try {
         const data = JSON.parse(leftover);
         if (data.type === 'sentence') {
-            restoredSentences.push({ id: data.id, english_text: data.text, status: 'pending' });
+            restoredSentences.push(fromSentenceRecord(data));
         } else if (data.type === 'image' || (data.id && data.base64)) {
           if (data.id && data.base64) {
-            await saveImage(data.id, data.base64);
+            pending.push(toRestoredImage(data));
             imageCount++;
             if (!data.type) legacyImageIds.push(data.id);
           }
         }
       } catch (e) {}
     }
+    await flush();
 
   } finally {
     reader.releaseLock();
   }
   
   console.log(`Import completed. Images: ${imageCount}, Sentences: ${restoredSentences.length}, Legacy Images: ${legacyImageIds.length}`);
-  return { imageCount, restoredSentences, legacyImageIds };
+  return { imageCount, restoredSentences, legacyImageIds, fieldDefinitions };
 };
\ No newline at end of file
@@ -0,0 +1,28 @@
+// Images are stored as Blobs; backups, SQLite exports and provider APIs still speak base64
+
+export const base64ToBlob = (base64: string, mimeType: string): Blob => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new Blob([bytes], { type: mimeType });
+};
+
+// Also accepts bare base64, which very old backups contain, as PNG
+export const dataUrlToBlob = (dataUrl: string): Blob => {
+  if (!dataUrl.startsWith('data:')) return base64ToBlob(dataUrl, 'image/png');
+  const [header, base64] = dataUrl.split(',');
+  return base64ToBlob(base64, header.match(/^data:([^;]+)/)?.[1] || 'image/png');
+};
+
+export const blobToDataUrl = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+};
+
+export const blobToBase64 = async (blob: Blob): Promise<string> => {
+  return (await blobToDataUrl(blob)).split(',')[1] || '';
+};
@@ -0,0 +1,88 @@
+import { Character, EnglishSentence, PronounPin, ReferenceImage } from '../types';
+import { getSetting, saveSetting } from './dbService';
+import { fromDataUrl } from './imageProviderService';
+
+const CHARACTERS_KEY = 'characters';
+const PRONOUN_PINS_KEY = 'pronounPins';
+
+// Every form of a pinnable pronoun that should trigger the pin
+export const PRONOUN_FORMS: Record<string, string[]> = {
+  i: ['i', 'me', 'my', 'mine', 'myself'],
+  you: ['you', 'your', 'yours', 'yourself'],
+  he: ['he', 'him', 'his', 'himself'],
+  she: ['she', 'her', 'hers', 'herself'],
+  we: ['we', 'us', 'our', 'ours', 'ourselves'],
+  they: ['they', 'them', 'their', 'theirs', 'themselves']
+};
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const containsTerm = (text: string, term: string): boolean => {
+  const trimmed = term.trim();
+  if (!trimmed) return false;
+  // \b fails next to punctuation such as "Ms.", so check the neighbours explicitly
+  return new RegExp(`(^|[^\\p{L}\\p{N}])${escapeRegExp(trimmed)}(?=$|[^\\p{L}\\p{N}])`, 'iu').test(text);
+};
+
+export const loadCharacters = async (): Promise<{ characters: Character[]; pronounPins: PronounPin[] }> => {
+  const [characters, pronounPins] = await Promise.all([
+    getSetting<Character[]>(CHARACTERS_KEY),
+    getSetting<PronounPin[]>(PRONOUN_PINS_KEY)
+  ]);
+  return { characters: characters || [], pronounPins: pronounPins || [] };
+};
+
+export const saveCharacters = async (characters: Character[], pronounPins: PronounPin[]): Promise<void> => {
+  await Promise.all([
+    saveSetting(CHARACTERS_KEY, characters),
+    saveSetting(PRONOUN_PINS_KEY, pronounPins)
+  ]);
+};
+
+// Returns a function listing the characters that appear in a sentence,
+// by name / alias or through a pronoun pinned for that part of the list
+export const createCharacterResolver = (characters: Character[], pronounPins: PronounPin[], sentences: EnglishSentence[]) => {
+  const byId = new Map(characters.map(c => [c.id, c]));
+  const positions = new Map(sentences.map((s, index) => [s.id, index]));
+
+  const inRange = (pin: PronounPin, position: number) => {
+    const from = pin.fromId ? positions.get(pin.fromId) : 0;
+    const to = pin.toId ? positions.get(pin.toId) : Infinity;
+    // A range end that no longer exists disables the pin rather than widening it
+    if (from === undefined || to === undefined) return false;
+    return position >= from && position <= to;
+  };
+
+  return (sentence: EnglishSentence): Character[] => {
+    const found = new Map<string, Character>();
+    for (const character of characters) {
+      if ([character.name, ...character.aliases].some(term => containsTerm(sentence.english_text, term))) {
+        found.set(character.id, character);
+      }
+    }
+
+    const position = positions.get(sentence.id) ?? -1;
+    for (const pin of pronounPins) {
+      const character = byId.get(pin.characterId);
+      if (!character || found.has(character.id) || !inRange(pin, position)) continue;
+      const forms = PRONOUN_FORMS[pin.pronoun.toLowerCase()] || [pin.pronoun];
+      if (forms.some(form => containsTerm(sentence.english_text, form))) {
+        found.set(character.id, character);
+      }
+    }
+    return Array.from(found.values());
+  };
+};
+
+// Text for the {{characters}} placeholder
+export const describeCharacters = (characters: Character[]): string => {
+  return characters
+    .map(c => c.appearance.trim() ? `${c.name} (${c.appearance.trim().replace(/[.\s]+$/, '')})` : c.name)
+    .join('; ');
+};
+
+export const getCharacterReferenceImages = (characters: Character[]): ReferenceImage[] => {
+  return characters
+    .filter(c => c.referenceImage)
+    .map(c => ({ ...fromDataUrl(c.referenceImage as string), label: `Reference for the character ${c.name}` }));
+};
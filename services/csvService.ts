@@ -0,0 +1,199 @@
+import { EnglishSentence } from '../types';
+
+export interface CsvRow {
+  // Line in the file where the record starts, for reporting
+  line: number;
+  cells: string[];
+}
+
+export type CsvIssueKind = 'malformed' | 'duplicate_id' | 'empty_id' | 'empty_text';
+
+export interface CsvIssue {
+  kind: CsvIssueKind;
+  line: number;
+  message: string;
+}
+
+export interface CsvTable {
+  delimiter: string;
+  rows: CsvRow[];
+  // Quoting problems found while reading; the rows are still returned as best read
+  issues: CsvIssue[];
+}
+
+export interface ColumnMapping {
+  hasHeader: boolean;
+  idColumn: number;
+  textColumn: number;
+  // Kept on the sentence as fields, named by the header
+  extraColumns: number[];
+}
+
+export interface CsvImportResult {
+  sentences: EnglishSentence[];
+  issues: CsvIssue[];
+}
+
+// Rows with these problems are left out of the import
+export const SKIPPED_ISSUES: CsvIssueKind[] = ['duplicate_id', 'empty_id', 'empty_text'];
+
+export const ISSUE_LABELS: Record<CsvIssueKind, string> = {
+  malformed: 'Malformed rows',
+  duplicate_id: 'Duplicate IDs',
+  empty_id: 'Missing ID',
+  empty_text: 'Empty text'
+};
+
+const DELIMITERS = [',', '\t', ';'];
+
+// Whichever candidate appears most often on the first line
+export const detectDelimiter = (text: string): string => {
+  const firstLine = text.split(/\r?\n/, 1)[0] || '';
+  let best = ',';
+  let bestCount = 0;
+  for (const delimiter of DELIMITERS) {
+    const count = firstLine.split(delimiter).length - 1;
+    if (count > bestCount) {
+      best = delimiter;
+      bestCount = count;
+    }
+  }
+  return best;
+};
+
+// RFC 4180: quoted fields may contain delimiters, doubled quotes and line breaks.
+// Blank lines are skipped; a UTF-8 byte order mark is ignored.
+export const parseDelimited = (input: string, delimiter = detectDelimiter(input)): CsvTable => {
+  const text = input.charCodeAt(0) === 0xFEFF ? input.slice(1) : input;
+  const rows: CsvRow[] = [];
+  const issues: CsvIssue[] = [];
+
+  let cells: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  // The current field was quoted and its closing quote has been read
+  let closed = false;
+  let line = 1;
+  let rowLine = 1;
+  let rowIssue: string | null = null;
+
+  const endField = () => {
+    cells.push(field);
+    field = '';
+    closed = false;
+  };
+
+  const endRow = () => {
+    endField();
+    if (rowIssue) issues.push({ kind: 'malformed', line: rowLine, message: rowIssue });
+    if (cells.length > 1 || cells[0] !== '') rows.push({ line: rowLine, cells });
+    cells = [];
+    rowIssue = null;
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (inQuotes) {
+      if (c === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (c === '"') {
+        inQuotes = false;
+        closed = true;
+      } else {
+        if (c === '\n' || (c === '\r' && text[i + 1] !== '\n')) line++;
+        field += c;
+      }
+      continue;
+    }
+
+    if (c === delimiter) {
+      endField();
+    } else if (c === '\r' || c === '\n') {
+      if (c === '\r' && text[i + 1] === '\n') i++;
+      endRow();
+      line++;
+      rowLine = line;
+    } else if (c === '"' && field === '' && !closed) {
+      inQuotes = true;
+    } else {
+      if (closed) rowIssue ??= 'Text after a closing quote';
+      else if (c === '"') rowIssue ??= 'Quote inside an unquoted field';
+      field += c;
+    }
+  }
+
+  if (inQuotes) rowIssue ??= 'Quoted field is never closed';
+  if (field !== '' || cells.length > 0 || closed || rowIssue) endRow();
+
+  return { delimiter, rows, issues };
+};
+
+// Quotes only the cells that need it, with CRLF line ends as RFC 4180 asks
+export const toCsv = (rows: string[][]): string => {
+  return rows
+    .map(row => row.map(cell => /[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell).join(','))
+    .join('\r\n') + '\r\n';
+};
+
+export const getColumnCount = (table: CsvTable): number => {
+  return table.rows.reduce((max, row) => Math.max(max, row.cells.length), 0);
+};
+
+export const getColumnNames = (table: CsvTable, hasHeader: boolean): string[] => {
+  const header = hasHeader ? table.rows[0]?.cells || [] : [];
+  return Array.from({ length: getColumnCount(table) }, (_, i) => header[i]?.trim() || `Column ${i + 1}`);
+};
+
+// Looks for the usual header names, falling back to the old fixed layout of ID then text
+export const guessColumnMapping = (table: CsvTable): ColumnMapping => {
+  const header = (table.rows[0]?.cells || []).map(cell => cell.trim().toLowerCase());
+  const idIndex = header.findIndex(name => /^(id|no\.?|number|key)$/.test(name));
+  const englishIndex = header.findIndex(name => name.includes('english'));
+  const textIndex = englishIndex !== -1 ? englishIndex : header.findIndex(name => /sentence|text/.test(name));
+  const idColumn = idIndex !== -1 ? idIndex : 0;
+  const textColumn = textIndex !== -1 && textIndex !== idColumn ? textIndex : (idColumn === 0 ? 1 : 0);
+  const extraColumns = Array.from({ length: getColumnCount(table) }, (_, i) => i)
+    .filter(i => i !== idColumn && i !== textColumn);
+  return { hasHeader: true, idColumn, textColumn, extraColumns };
+};
+
+export const buildSentences = (table: CsvTable, mapping: ColumnMapping): CsvImportResult => {
+  const names = getColumnNames(table, mapping.hasHeader);
+  const body = mapping.hasHeader ? table.rows.slice(1) : table.rows;
+  const expectedCells = mapping.hasHeader ? table.rows[0]?.cells.length : undefined;
+  const issues: CsvIssue[] = [...table.issues];
+  const seen = new Map<string, number>();
+  const sentences: EnglishSentence[] = [];
+
+  for (const row of body) {
+    if (expectedCells !== undefined && row.cells.length !== expectedCells) {
+      issues.push({ kind: 'malformed', line: row.line, message: `${row.cells.length} columns, header has ${expectedCells}` });
+    }
+    const id = (row.cells[mapping.idColumn] || '').trim();
+    const text = (row.cells[mapping.textColumn] || '').trim();
+    if (!id) {
+      issues.push({ kind: 'empty_id', line: row.line, message: 'No ID' });
+      continue;
+    }
+    const firstLine = seen.get(id);
+    if (firstLine !== undefined) {
+      issues.push({ kind: 'duplicate_id', line: row.line, message: `"${id}" already used on line ${firstLine}` });
+      continue;
+    }
+    seen.set(id, row.line);
+    if (!text) {
+      issues.push({ kind: 'empty_text', line: row.line, message: `"${id}" has no text` });
+      continue;
+    }
+
+    const sentence: EnglishSentence = { id, english_text: text, status: 'pending' };
+    if (mapping.extraColumns.length > 0) {
+      sentence.fields = Object.fromEntries(mapping.extraColumns.map(i => [names[i], (row.cells[i] || '').trim()]));
+    }
+    sentences.push(sentence);
+  }
+
+  issues.sort((a, b) => a.line - b.line);
+  return { sentences, issues };
+};
@@ -1,36 +1,184 @@
 
-const DB_NAME = 'EnglishVisualizerDB';
+import { GenerationJob, EnglishSentence, Project, ImageMeta, ImageVariant, UsageRecord } from '../types';
+import { dataUrlToBlob } from './blobService';
+
+// Each project gets its own database; the default project keeps the original name
+export const DEFAULT_DB_NAME = 'EnglishVisualizerDB';
 const STORE_NAME = 'images';
-const DB_VERSION = 1;
+const JOBS_STORE = 'jobs';
+const SETTINGS_STORE = 'settings';
+const SENTENCES_STORE = 'sentences';
+const IMAGE_META_STORE = 'imageMeta';
+const VARIANTS_STORE = 'variants';
+const THUMBNAILS_STORE = 'thumbnails';
+const DB_VERSION = 7;
 
-export const initDB = (): Promise<IDBDatabase> => {
+const PROJECTS_DB_NAME = 'EnglishVisualizerProjects';
+const PROJECTS_STORE = 'projects';
+// Usage is logged here rather than per project so spend can be totalled across projects
+const USAGE_STORE = 'usage';
+const PROJECTS_DB_VERSION = 2;
+
+// Images read or written per transaction by the batched helpers
+const IMAGE_BATCH_SIZE = 50;
+
+let activeDbName = DEFAULT_DB_NAME;
+// One open connection, reused until the active project changes or another tab upgrades the schema
+let connection: { name: string; db: Promise<IDBDatabase> } | null = null;
+let projectsConnection: Promise<IDBDatabase> | null = null;
+let migrationListener: ((progress: number | null) => void) | null = null;
+
+export const setActiveDatabase = (dbName: string) => {
+  activeDbName = dbName;
+};
+
+export const getActiveDatabase = (): string => activeDbName;
+
+// Called with 0-100 while an upgrade converts stored images, then with null when it is done
+export const setMigrationListener = (listener: ((progress: number | null) => void) | null) => {
+  migrationListener = listener;
+};
+
+const closeConnection = (name: string) => {
+  if (connection?.name !== name) return;
+  connection.db.then(db => db.close()).catch(() => {});
+  connection = null;
+};
+
+// v6: images and their variants were data URL strings; rewrite them as Blobs in place
+const migrateImagesToBlobs = (transaction: IDBTransaction) => {
+  const images = transaction.objectStore(STORE_NAME);
+  const variants = transaction.objectStore(VARIANTS_STORE);
+  let total = 0;
+  let done = 0;
+
+  const step = () => {
+    done++;
+    if (done % IMAGE_BATCH_SIZE === 0 || done === total) migrationListener?.(Math.round((done / total) * 100));
+  };
+
+  const convert = (store: IDBObjectStore, toBlobValue: (value: any) => any) => {
+    store.openCursor().onsuccess = (event: any) => {
+      const cursor: IDBCursorWithValue | null = event.target.result;
+      if (!cursor) return;
+      try {
+        const value = toBlobValue(cursor.value);
+        if (value) cursor.update(value);
+      } catch (e) {
+        // Leave an unreadable record as it was rather than abort the whole upgrade
+        console.warn("Could not convert stored image", cursor.key, e);
+      }
+      step();
+      cursor.continue();
+    };
+  };
+
+  images.count().onsuccess = (event: any) => { total += event.target.result; };
+  variants.count().onsuccess = (event: any) => {
+    total += event.target.result;
+    if (total === 0) return;
+    migrationListener?.(0);
+    convert(images, value => typeof value === 'string' ? dataUrlToBlob(value) : null);
+    convert(variants, ({ url, ...variant }) => typeof url === 'string' ? { ...variant, image: dataUrlToBlob(url) } : null);
+  };
+  transaction.addEventListener('complete', () => migrationListener?.(null));
+  transaction.addEventListener('abort', () => migrationListener?.(null));
+};
+
+const openDatabase = (name: string): Promise<IDBDatabase> => {
   return new Promise((resolve, reject) => {
-    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    const request = indexedDB.open(name, DB_VERSION);
 
     request.onerror = () => reject(request.error);
-    request.onsuccess = () => resolve(request.result);
+    request.onsuccess = () => {
+      const db = request.result;
+      // Let upgrades and project deletion proceed instead of blocking on us
+      db.onversionchange = () => {
+        db.close();
+        if (connection?.name === name) connection = null;
+      };
+      db.onclose = () => {
+        if (connection?.name === name) connection = null;
+      };
+      resolve(db);
+    };
 
     request.onupgradeneeded = (event: any) => {
       const db = event.target.result;
       if (!db.objectStoreNames.contains(STORE_NAME)) {
         db.createObjectStore(STORE_NAME);
       }
+      // v2: persistent generation queue and key-value settings
+      if (!db.objectStoreNames.contains(JOBS_STORE)) {
+        const jobs = db.createObjectStore(JOBS_STORE, { keyPath: 'id' });
+        jobs.createIndex('status', 'status');
+      }
+      if (!db.objectStoreNames.contains(SETTINGS_STORE)) {
+        db.createObjectStore(SETTINGS_STORE);
+      }
+      // v3: the sentence list, stored with its position so order survives
+      if (!db.objectStoreNames.contains(SENTENCES_STORE)) {
+        db.createObjectStore(SENTENCES_STORE, { keyPath: 'id' });
+      }
+      // v4: prompt and template version behind each image
+      if (!db.objectStoreNames.contains(IMAGE_META_STORE)) {
+        db.createObjectStore(IMAGE_META_STORE, { keyPath: 'id' });
+      }
+      // v5: every generated candidate, not just the selected image
+      if (!db.objectStoreNames.contains(VARIANTS_STORE)) {
+        const variants = db.createObjectStore(VARIANTS_STORE, { keyPath: 'id' });
+        variants.createIndex('sentenceId', 'sentenceId');
+      }
+      // v6: Blobs instead of data URLs
+      if (event.oldVersion > 0 && event.oldVersion < 6) {
+        migrateImagesToBlobs(request.transaction as IDBTransaction);
+      }
+      // v7: small copies of the selected images for the list; existing images are backfilled after opening
+      if (!db.objectStoreNames.contains(THUMBNAILS_STORE)) {
+        db.createObjectStore(THUMBNAILS_STORE);
+      }
     };
   });
 };
 
-export const saveImage = async (id: string, base64: string): Promise<void> => {
+export const initDB = (): Promise<IDBDatabase> => {
+  if (connection?.name === activeDbName) return connection.db;
+  if (connection) closeConnection(connection.name);
+  const name = activeDbName;
+  const db = openDatabase(name);
+  connection = { name, db };
+  // A failed open must not stick; the next call tries again
+  db.catch(() => {
+    if (connection?.db === db) connection = null;
+  });
+  return db;
+};
+
+export const saveImage = async (id: string, image: Blob): Promise<void> => {
   const db = await initDB();
   return new Promise((resolve, reject) => {
     const transaction = db.transaction(STORE_NAME, 'readwrite');
     const store = transaction.objectStore(STORE_NAME);
-    const request = store.put(base64, id);
+    const request = store.put(image, id);
     request.onsuccess = () => resolve();
     request.onerror = () => reject(request.error);
   });
 };
 
-export const getImage = async (id: string): Promise<string | null> => {
+// Writes many images in one transaction
+export const saveImages = async (images: { id: string; image: Blob }[]): Promise<void> => {
+  if (images.length === 0) return;
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    const store = transaction.objectStore(STORE_NAME);
+    images.forEach(({ id, image }) => store.put(image, id));
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+export const getImage = async (id: string): Promise<Blob | null> => {
   const db = await initDB();
   return new Promise((resolve, reject) => {
     const transaction = db.transaction(STORE_NAME, 'readonly');
@@ -41,65 +189,467 @@ export const getImage = async (id: string): Promise<string | null> => {
   });
 };
 
-export const getAllImages = async (): Promise<Record<string, string>> => {
+// Reads many images in one transaction; missing ones are left out
+export const getImages = async (ids: string[]): Promise<Map<string, Blob>> => {
   const db = await initDB();
   return new Promise((resolve, reject) => {
     const transaction = db.transaction(STORE_NAME, 'readonly');
     const store = transaction.objectStore(STORE_NAME);
-    const results: Record<string, string> = {};
+    const results = new Map<string, Blob>();
+    ids.forEach(id => {
+      const request = store.get(id);
+      request.onsuccess = () => {
+        if (request.result) results.set(id, request.result);
+      };
+    });
+    transaction.oncomplete = () => resolve(results);
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
 
-    const request = store.openCursor();
-    request.onsuccess = (event: any) => {
-      const cursor = event.target.result;
-      if (cursor) {
-        results[cursor.key as string] = cursor.value;
-        cursor.continue();
-      } else {
-        resolve(results);
+// Walks every image a batch at a time. Each batch is read in its own transaction and the
+// callback runs outside it, so the callback may await (encoding, file writes) without the
+// transaction closing under it.
+export const iterateImages = async (callback: (id: string, image: Blob) => Promise<void> | void): Promise<void> => {
+  let after: string | undefined;
+  while (true) {
+    const db = await initDB();
+    const batch = await new Promise<{ keys: string[]; values: Blob[] }>((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, 'readonly');
+      const store = transaction.objectStore(STORE_NAME);
+      const range = after === undefined ? undefined : IDBKeyRange.lowerBound(after, true);
+      const keysRequest = store.getAllKeys(range, IMAGE_BATCH_SIZE);
+      const valuesRequest = store.getAll(range, IMAGE_BATCH_SIZE);
+      transaction.oncomplete = () => resolve({ keys: keysRequest.result as string[], values: valuesRequest.result });
+      transaction.onerror = () => reject(transaction.error);
+    });
+    for (let i = 0; i < batch.keys.length; i++) {
+      await callback(batch.keys[i], batch.values[i]);
+    }
+    if (batch.keys.length < IMAGE_BATCH_SIZE) return;
+    after = batch.keys[batch.keys.length - 1];
+  }
+};
+
+export const getAllKeys = async (): Promise<string[]> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, 'readonly');
+    const store = transaction.objectStore(STORE_NAME);
+    const request = store.getAllKeys();
+    request.onsuccess = () => resolve(request.result as string[]);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// The thumbnail goes with it
+export const deleteImage = async (id: string): Promise<void> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([STORE_NAME, THUMBNAILS_STORE], 'readwrite');
+    transaction.objectStore(STORE_NAME).delete(id);
+    transaction.objectStore(THUMBNAILS_STORE).delete(id);
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+// === Thumbnails ===
+
+export const saveThumbnails = async (thumbnails: { id: string; image: Blob }[]): Promise<void> => {
+  if (thumbnails.length === 0) return;
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(THUMBNAILS_STORE, 'readwrite');
+    const store = transaction.objectStore(THUMBNAILS_STORE);
+    thumbnails.forEach(({ id, image }) => store.put(image, id));
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+export const getThumbnail = async (id: string): Promise<Blob | null> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(THUMBNAILS_STORE, 'readonly');
+    const store = transaction.objectStore(THUMBNAILS_STORE);
+    const request = store.get(id);
+    request.onsuccess = () => resolve(request.result || null);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const getThumbnails = async (ids: string[]): Promise<Map<string, Blob>> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(THUMBNAILS_STORE, 'readonly');
+    const store = transaction.objectStore(THUMBNAILS_STORE);
+    const results = new Map<string, Blob>();
+    ids.forEach(id => {
+      const request = store.get(id);
+      request.onsuccess = () => {
+        if (request.result) results.set(id, request.result);
+      };
+    });
+    transaction.oncomplete = () => resolve(results);
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+// Images that have no thumbnail yet
+export const getIdsWithoutThumbnail = async (): Promise<string[]> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([STORE_NAME, THUMBNAILS_STORE], 'readonly');
+    const imageKeys = transaction.objectStore(STORE_NAME).getAllKeys();
+    const thumbnailKeys = transaction.objectStore(THUMBNAILS_STORE).getAllKeys();
+    transaction.oncomplete = () => {
+      const done = new Set(thumbnailKeys.result as string[]);
+      resolve((imageKeys.result as string[]).filter(id => !done.has(id)));
+    };
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+// === Image Metadata ===
+
+export const saveImageMeta = async (meta: ImageMeta): Promise<void> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(IMAGE_META_STORE, 'readwrite');
+    const store = transaction.objectStore(IMAGE_META_STORE);
+    const request = store.put(meta);
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const getImageMeta = async (id: string): Promise<ImageMeta | null> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(IMAGE_META_STORE, 'readonly');
+    const store = transaction.objectStore(IMAGE_META_STORE);
+    const request = store.get(id);
+    request.onsuccess = () => resolve(request.result || null);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const getAllImageMeta = async (): Promise<ImageMeta[]> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(IMAGE_META_STORE, 'readonly');
+    const store = transaction.objectStore(IMAGE_META_STORE);
+    const request = store.getAll();
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const deleteImageMeta = async (id: string): Promise<void> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(IMAGE_META_STORE, 'readwrite');
+    const store = transaction.objectStore(IMAGE_META_STORE);
+    const request = store.delete(id);
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// === Image Variants ===
+
+export const saveVariants = async (variants: ImageVariant[]): Promise<void> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(VARIANTS_STORE, 'readwrite');
+    const store = transaction.objectStore(VARIANTS_STORE);
+    variants.forEach(variant => store.put(variant));
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+export const getVariants = async (sentenceId: string): Promise<ImageVariant[]> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(VARIANTS_STORE, 'readonly');
+    const store = transaction.objectStore(VARIANTS_STORE);
+    const request = store.index('sentenceId').getAll(IDBKeyRange.only(sentenceId));
+    request.onsuccess = () => resolve((request.result as ImageVariant[]).sort((a, b) => a.createdAt - b.createdAt));
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const countVariants = async (sentenceId: string): Promise<number> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(VARIANTS_STORE, 'readonly');
+    const store = transaction.objectStore(VARIANTS_STORE);
+    const request = store.index('sentenceId').count(IDBKeyRange.only(sentenceId));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const deleteVariants = async (ids: string[]): Promise<void> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(VARIANTS_STORE, 'readwrite');
+    const store = transaction.objectStore(VARIANTS_STORE);
+    ids.forEach(id => store.delete(id));
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+// === Generation Jobs ===
+
+export const saveJobs = async (jobs: GenerationJob[]): Promise<void> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(JOBS_STORE, 'readwrite');
+    const store = transaction.objectStore(JOBS_STORE);
+    jobs.forEach(job => store.put(job));
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+export const updateJob = async (id: string, patch: Partial<GenerationJob>): Promise<void> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(JOBS_STORE, 'readwrite');
+    const store = transaction.objectStore(JOBS_STORE);
+    const request = store.get(id);
+    request.onsuccess = () => {
+      // The job may have been removed by a cancel in the meantime
+      if (request.result) {
+        store.put({ ...request.result, ...patch, updatedAt: Date.now() });
       }
     };
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+export const getAllJobs = async (): Promise<GenerationJob[]> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(JOBS_STORE, 'readonly');
+    const store = transaction.objectStore(JOBS_STORE);
+    const request = store.getAll();
+    request.onsuccess = () => resolve((request.result as GenerationJob[]).sort((a, b) => a.enqueuedAt - b.enqueuedAt));
     request.onerror = () => reject(request.error);
   });
 };
 
-export const iterateImages = async (callback: (id: string, base64: string) => void): Promise<void> => {
+export const deleteJob = async (id: string): Promise<void> => {
   const db = await initDB();
   return new Promise((resolve, reject) => {
-    const transaction = db.transaction(STORE_NAME, 'readonly');
-    const store = transaction.objectStore(STORE_NAME);
-    const request = store.openCursor();
-    
+    const transaction = db.transaction(JOBS_STORE, 'readwrite');
+    const store = transaction.objectStore(JOBS_STORE);
+    const request = store.delete(id);
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const clearJobs = async (): Promise<void> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(JOBS_STORE, 'readwrite');
+    const store = transaction.objectStore(JOBS_STORE);
+    const request = store.clear();
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Jobs left in 'processing' by a reload or crash go back to the queue
+export const recoverStaleJobs = async (): Promise<number> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(JOBS_STORE, 'readwrite');
+    const store = transaction.objectStore(JOBS_STORE);
+    const request = store.index('status').openCursor(IDBKeyRange.only('processing'));
+    let count = 0;
+
     request.onsuccess = (event: any) => {
       const cursor = event.target.result;
       if (cursor) {
-        callback(cursor.key as string, cursor.value);
+        cursor.update({ ...cursor.value, status: 'queued', updatedAt: Date.now() });
+        count++;
         cursor.continue();
-      } else {
-        resolve();
       }
     };
+    transaction.oncomplete = () => resolve(count);
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+// === Sentences ===
+
+// Replaces the stored list in a single transaction
+export const saveSentences = async (sentences: EnglishSentence[]): Promise<void> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(SENTENCES_STORE, 'readwrite');
+    const store = transaction.objectStore(SENTENCES_STORE);
+    store.clear();
+    sentences.forEach((sentence, order) => store.put({ ...sentence, order }));
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+export const getAllSentences = async (): Promise<EnglishSentence[]> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(SENTENCES_STORE, 'readonly');
+    const store = transaction.objectStore(SENTENCES_STORE);
+    const request = store.getAll();
+    request.onsuccess = () => {
+      const records = request.result as (EnglishSentence & { order: number })[];
+      resolve(records.sort((a, b) => a.order - b.order).map(({ order, ...sentence }) => sentence));
+    };
     request.onerror = () => reject(request.error);
   });
 };
 
-export const getAllKeys = async (): Promise<string[]> => {
+// === Settings ===
+
+export const getSetting = async <T>(key: string): Promise<T | null> => {
   const db = await initDB();
   return new Promise((resolve, reject) => {
-    const transaction = db.transaction(STORE_NAME, 'readonly');
-    const store = transaction.objectStore(STORE_NAME);
-    const request = store.getAllKeys();
-    request.onsuccess = () => resolve(request.result as string[]);
+    const transaction = db.transaction(SETTINGS_STORE, 'readonly');
+    const store = transaction.objectStore(SETTINGS_STORE);
+    const request = store.get(key);
+    request.onsuccess = () => resolve(request.result ?? null);
     request.onerror = () => reject(request.error);
   });
 };
 
-export const deleteImage = async (id: string): Promise<void> => {
+export const saveSetting = async <T>(key: string, value: T): Promise<void> => {
   const db = await initDB();
   return new Promise((resolve, reject) => {
-    const transaction = db.transaction(STORE_NAME, 'readwrite');
-    const store = transaction.objectStore(STORE_NAME);
+    const transaction = db.transaction(SETTINGS_STORE, 'readwrite');
+    const store = transaction.objectStore(SETTINGS_STORE);
+    const request = store.put(value, key);
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// === Projects Registry ===
+
+const initProjectsDB = (): Promise<IDBDatabase> => {
+  if (projectsConnection) return projectsConnection;
+  const db = new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(PROJECTS_DB_NAME, PROJECTS_DB_VERSION);
+
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => {
+      const db = request.result;
+      db.onversionchange = () => {
+        db.close();
+        projectsConnection = null;
+      };
+      db.onclose = () => { projectsConnection = null; };
+      resolve(db);
+    };
+
+    request.onupgradeneeded = (event: any) => {
+      const db = event.target.result;
+      if (!db.objectStoreNames.contains(PROJECTS_STORE)) {
+        db.createObjectStore(PROJECTS_STORE, { keyPath: 'id' });
+      }
+      // v2: provider call log
+      if (!db.objectStoreNames.contains(USAGE_STORE)) {
+        db.createObjectStore(USAGE_STORE, { keyPath: 'id', autoIncrement: true });
+      }
+    };
+  });
+  projectsConnection = db;
+  db.catch(() => {
+    if (projectsConnection === db) projectsConnection = null;
+  });
+  return db;
+};
+
+export const getAllProjects = async (): Promise<Project[]> => {
+  const db = await initProjectsDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(PROJECTS_STORE, 'readonly');
+    const store = transaction.objectStore(PROJECTS_STORE);
+    const request = store.getAll();
+    request.onsuccess = () => resolve((request.result as Project[]).sort((a, b) => a.createdAt - b.createdAt));
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const saveProject = async (project: Project): Promise<void> => {
+  const db = await initProjectsDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(PROJECTS_STORE, 'readwrite');
+    const store = transaction.objectStore(PROJECTS_STORE);
+    const request = store.put(project);
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const deleteProjectRecord = async (id: string): Promise<void> => {
+  const db = await initProjectsDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(PROJECTS_STORE, 'readwrite');
+    const store = transaction.objectStore(PROJECTS_STORE);
     const request = store.delete(id);
     request.onsuccess = () => resolve();
     request.onerror = () => reject(request.error);
   });
 };
+
+// === Usage Log ===
+
+export const addUsageRecord = async (record: UsageRecord): Promise<UsageRecord> => {
+  const db = await initProjectsDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(USAGE_STORE, 'readwrite');
+    const store = transaction.objectStore(USAGE_STORE);
+    const request = store.add(record);
+    request.onsuccess = () => resolve({ ...record, id: request.result as number });
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const getAllUsageRecords = async (): Promise<UsageRecord[]> => {
+  const db = await initProjectsDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(USAGE_STORE, 'readonly');
+    const store = transaction.objectStore(USAGE_STORE);
+    const request = store.getAll();
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const clearUsageRecords = async (): Promise<void> => {
+  const db = await initProjectsDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(USAGE_STORE, 'readwrite');
+    const store = transaction.objectStore(USAGE_STORE);
+    const request = store.clear();
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const deleteDatabase = (dbName: string): Promise<void> => {
+  closeConnection(dbName);
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.deleteDatabase(dbName);
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+};
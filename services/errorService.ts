@@ -0,0 +1,110 @@
+import { FailureKind } from '../types';
+
+// Error raised by image providers when the backend responds with a failure.
+export class ProviderError extends Error {
+  status?: number;
+  retryAfterMs?: number;
+  // Set when the provider knows the reason better than the message does
+  kind?: FailureKind;
+
+  constructor(message: string, options: { status?: number; retryAfterMs?: number; kind?: FailureKind } = {}) {
+    super(message);
+    this.name = 'ProviderError';
+    this.status = options.status;
+    this.retryAfterMs = options.retryAfterMs;
+    this.kind = options.kind;
+  }
+}
+
+// Raised before a call that would take spend past the configured budget
+export class BudgetExceededError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+export const FAILURE_LABELS: Record<FailureKind, string> = {
+  safety: 'Safety block',
+  no_image: 'No image',
+  rate_limit: 'Rate limited',
+  quota: 'Quota exceeded',
+  network: 'Network error',
+  invalid_key: 'Invalid API key',
+  unknown: 'Error'
+};
+
+export interface RateLimitInfo {
+  // 'quota' means the allowance is used up and waiting a few seconds won't help
+  kind: 'rate_limit' | 'quota';
+  retryAfterMs?: number;
+}
+
+// Retry-After is either delta-seconds or an HTTP date
+export const parseRetryAfter = (value: string | null | undefined): number | undefined => {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  if (!Number.isNaN(date)) return Math.max(0, date - Date.now());
+  return undefined;
+};
+
+const getStatus = (error: any): number | undefined => {
+  if (typeof error?.status === 'number') return error.status;
+  if (typeof error?.code === 'number') return error.code;
+  return undefined;
+};
+
+export const getRateLimitInfo = (error: unknown): RateLimitInfo | null => {
+  const err = error as any;
+  const message: string = String(err?.message || err || '');
+  const status = getStatus(err);
+
+  const isRateLimited = status === 429
+    || /RESOURCE_EXHAUSTED|rate.?limit|too many requests/i.test(message);
+  if (!isRateLimited) return null;
+
+  let retryAfterMs: number | undefined = err?.retryAfterMs;
+  if (retryAfterMs === undefined) {
+    // Gemini puts the delay in the RetryInfo detail, e.g. "retryDelay": "37s"
+    const match = message.match(/retryDelay"?\s*:\s*"?(\d+(?:\.\d+)?)s/);
+    if (match) retryAfterMs = Number(match[1]) * 1000;
+  }
+
+  // Daily quotas (Gemini) and exhausted credit (OpenAI) don't recover within a retry window
+  const isQuota = /PerDay|insufficient_quota/i.test(message);
+  return { kind: isQuota ? 'quota' : 'rate_limit', retryAfterMs };
+};
+
+export const classifyError = (error: unknown): FailureKind => {
+  if (error instanceof ProviderError && error.kind) return error.kind;
+  if (error instanceof BudgetExceededError) return 'quota';
+
+  const rateLimit = getRateLimitInfo(error);
+  if (rateLimit) return rateLimit.kind;
+
+  const message = getErrorMessage(error);
+  const status = getStatus(error);
+  if (status === 401 || status === 403 || /API.?key|PERMISSION_DENIED|UNAUTHENTICATED/i.test(message)) {
+    return 'invalid_key';
+  }
+  if (/safety|blocked|PROHIBITED_CONTENT|content.?policy|moderation/i.test(message)) return 'safety';
+  // fetch() rejects with a TypeError when the request never got a response
+  if (error instanceof TypeError || /network|failed to fetch|fetch failed|ECONN|ETIMEDOUT|timed? ?out/i.test(message)) {
+    return 'network';
+  }
+  if (/no image/i.test(message)) return 'no_image';
+  return 'unknown';
+};
+
+// Retrying the same request can't fix a blocked prompt or a bad key
+export const isRetryable = (error: unknown): boolean => {
+  const kind = classifyError(error);
+  return kind !== 'safety' && kind !== 'invalid_key';
+};
+
+export const getErrorMessage = (error: unknown): string => {
+  if (error instanceof Error) return error.message;
+  return String(error);
+};
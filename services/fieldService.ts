@@ -0,0 +1,87 @@
+import { EnglishSentence, FieldDefinition, FieldType } from '../types';
+
+export const FIELD_TYPE_LABELS: Record<FieldType, string> = {
+  text: 'Text',
+  number: 'Number',
+  tags: 'Tags'
+};
+
+const TAG_SEPARATOR = /[,;|]/;
+const MAX_TAG_LENGTH = 30;
+// Tags show up as lists in most rows and the same few tags repeat; prose with a comma does neither
+const MIN_SEPARATED_SHARE = 0.5;
+const MAX_DISTINCT_TAG_SHARE = 0.6;
+
+const isNumeric = (value: string) => value !== '' && Number.isFinite(Number(value));
+
+// Numbers when every value is one; tags when values read as short separated lists drawn
+// from a small vocabulary. Anything doubtful stays text, which the user can switch.
+export const inferFieldType = (values: string[]): FieldType => {
+  const filled = values.map(v => v.trim()).filter(Boolean);
+  if (filled.length === 0) return 'text';
+  if (filled.every(isNumeric)) return 'number';
+  const parts = filled.map(v => v.split(TAG_SEPARATOR).map(p => p.trim()).filter(Boolean));
+  const tags = parts.flat();
+  const separated = parts.filter(p => p.length > 1).length;
+  const distinct = new Set(tags.map(tag => tag.toLowerCase())).size;
+  const looksLikeTags = separated >= filled.length * MIN_SEPARATED_SHARE &&
+    tags.every(tag => tag.length <= MAX_TAG_LENGTH) &&
+    distinct <= tags.length * MAX_DISTINCT_TAG_SHARE;
+  return looksLikeTags ? 'tags' : 'text';
+};
+
+// Tags fields hold several values; the others hold at most one
+export const getFieldValues = (sentence: EnglishSentence, field: FieldDefinition): string[] => {
+  const raw = (sentence.fields?.[field.name] || '').trim();
+  if (!raw) return [];
+  if (field.type !== 'tags') return [raw];
+  return raw.split(TAG_SEPARATOR).map(tag => tag.trim()).filter(Boolean);
+};
+
+export const compareFieldValues = (a: string, b: string, type: FieldType): number => {
+  if (type === 'number' && isNumeric(a) && isNumeric(b)) return Number(a) - Number(b);
+  // Empty values sort last; "Unit 10" after "Unit 9"
+  if (!a || !b) return a ? -1 : b ? 1 : 0;
+  return a.localeCompare(b, undefined, { numeric: true });
+};
+
+// Every distinct value of a field in display order, for filter and group pickers
+export const getDistinctFieldValues = (sentences: EnglishSentence[], field: FieldDefinition): string[] => {
+  const values = new Set<string>();
+  sentences.forEach(s => getFieldValues(s, field).forEach(v => values.add(v)));
+  return Array.from(values).sort((a, b) => compareFieldValues(a, b, field.type));
+};
+
+export const matchesFieldValue = (sentence: EnglishSentence, field: FieldDefinition, value: string): boolean => {
+  const values = getFieldValues(sentence, field);
+  return value === '' ? values.length === 0 : values.includes(value);
+};
+
+// Sentences restored from older projects carry fields without definitions; describe them as text
+export const completeFieldDefinitions = (definitions: FieldDefinition[], sentences: EnglishSentence[]): FieldDefinition[] => {
+  const known = new Set(definitions.map(d => d.name));
+  const missing: FieldDefinition[] = [];
+  for (const s of sentences) {
+    for (const name of Object.keys(s.fields || {})) {
+      if (known.has(name)) continue;
+      known.add(name);
+      missing.push({ name, type: 'text', visible: false });
+    }
+  }
+  return missing.length > 0 ? [...definitions, ...missing] : definitions;
+};
+
+// Re-importing keeps a column visible in the table if it already was, and keeps
+// the definitions of fields that merged-in sentences still carry
+export const mergeFieldDefinitions = (current: FieldDefinition[], incoming: FieldDefinition[], sentences: EnglishSentence[]): FieldDefinition[] => {
+  const byName = new Map(current.map(d => [d.name, d]));
+  const incomingNames = new Set(incoming.map(d => d.name));
+  const used = new Set(sentences.flatMap(s => Object.keys(s.fields || {})));
+  return [
+    ...incoming.map(d => {
+      const existing = byName.get(d.name);
+      return existing ? { ...d, visible: existing.visible } : d;
+    }),
+    ...current.filter(d => !incomingNames.has(d.name) && used.has(d.name))
+  ];
+};
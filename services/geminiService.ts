@@ -1,60 +1,172 @@
 
-import { GoogleGenAI, GenerateContentResponse } from "@google/genai";
+import { GoogleGenAI, GenerateContentResponse, Type } from "@google/genai";
+import { ImageProvider, ImageGenerationOptions, GeneratedImage, ScenePromptWriter, ScenePrompt, GeminiSettings, TokenUsage, ImageChecker, QualityFlag } from "../types";
+import { ProviderError } from "./errorService";
+import { loadGeminiSettings } from "./apiSettingsService";
 
-const getAIClient = () => {
-  const apiKey = process.env.API_KEY;
-  if (!apiKey) throw new Error("API Key is missing from environment.");
-  return new GoogleGenAI({ apiKey });
+// Finish reasons meaning the model refused rather than failed
+const SAFETY_FINISH_REASONS = ['SAFETY', 'IMAGE_SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII'];
+
+// Settings are read per call so changes in the settings panel apply immediately
+const getAIClient = (settings: GeminiSettings = loadGeminiSettings()) => {
+  if (!settings.apiKey) {
+    throw new ProviderError("No Gemini API key is set. Add your key in API Settings.", { kind: 'invalid_key' });
+  }
+  return new GoogleGenAI({ apiKey: settings.apiKey });
+};
+
+// Looks up both models, which checks the key without spending any quota
+export const testGeminiConnection = async (settings: GeminiSettings): Promise<void> => {
+  const ai = getAIClient(settings);
+  await Promise.all([
+    ai.models.get({ model: settings.textModel }),
+    ai.models.get({ model: settings.imageModel })
+  ]);
 };
 
-export const generateVisualPrompt = async (text: string, styleDescription: string): Promise<string> => {
-  const ai = getAIClient();
+const toTokenUsage = (response: GenerateContentResponse): TokenUsage | undefined => {
+  const usage = response.usageMetadata;
+  if (!usage) return undefined;
+  return { inputTokens: usage.promptTokenCount || 0, outputTokens: usage.candidatesTokenCount || 0 };
+};
+
+const writeScenePrompt = async (text: string, styleDescription: string): Promise<ScenePrompt> => {
+  const settings = loadGeminiSettings();
+  const ai = getAIClient(settings);
   const response = await ai.models.generateContent({
-    model: 'gemini-3-flash-preview',
+    model: settings.textModel,
     contents: `Translate this English sentence into a highly descriptive, artistic visual prompt. 
     The sentence: "${text}"
     The desired artistic style: ${styleDescription}
     Output ONLY the descriptive prompt for an image generator, no preamble.`,
   });
-  return response.text || text;
+  return { text: response.text || text, model: settings.textModel, usage: toTokenUsage(response) };
 };
 
-export const generateImageWithStyle = async (
-  text: string, 
-  styleDescription: string
-): Promise<string> => {
-  const ai = getAIClient();
-  
-  // Use the provided style description directly
-  const styleGuidance = styleDescription || "educational manga illustration, flat color style, friendly character design, clear composition, simple background, textbook illustration art";
+export const geminiScenePromptWriter: ScenePromptWriter = {
+  describe: writeScenePrompt
+};
+
+const generateImage = async (
+  prompt: string,
+  options: ImageGenerationOptions = {}
+): Promise<GeneratedImage> => {
+  const settings = loadGeminiSettings();
+  const ai = getAIClient(settings);
+  const startedAt = Date.now();
+
+  // Reference images go first, each introduced by a short label
+  const referenceParts = (options.referenceImages || []).flatMap(ref => [
+    { text: ref.label },
+    { inlineData: { mimeType: ref.mimeType, data: ref.base64 } }
+  ]);
 
   // Generate the actual image
   const contents: any = {
     parts: [
-      { text: `Create an image for the English sentence: "${text}". Style: ${styleGuidance}. Ensure the tone and manner matches the described style. Do not include any text, words, or letters in the image. If there is a protagonist, they must be human, not an animal.` }
+      ...referenceParts,
+      { text: prompt }
     ]
   };
 
   const response: GenerateContentResponse = await ai.models.generateContent({
-    model: 'gemini-2.5-flash-image',
+    model: settings.imageModel,
     contents,
     config: {
       imageConfig: {
-        aspectRatio: "1:1"
+        aspectRatio: options.aspectRatio || "1:1"
       },
       // @ts-ignore
-      negativePrompt: "text, english text, writing, words, letters, signature, watermark, typography, label, caption, animal, dog, cat, creature, furry, beast, pet, anthropomorphic animal"
+      negativePrompt: options.negativePrompt
     }
   });
 
-  let imageUrl = '';
-  for (const part of response.candidates?.[0]?.content?.parts || []) {
-    if (part.inlineData) {
-      imageUrl = `data:image/png;base64,${part.inlineData.data}`;
-      break;
+  const blockReason = response.promptFeedback?.blockReason;
+  if (blockReason) {
+    throw new ProviderError(`Prompt blocked by safety filters (${blockReason}).`, { kind: 'safety' });
+  }
+  const candidate = response.candidates?.[0];
+  if (candidate?.finishReason && SAFETY_FINISH_REASONS.includes(candidate.finishReason)) {
+    throw new ProviderError(`Image blocked by safety filters (${candidate.finishReason}).`, { kind: 'safety' });
+  }
+
+  for (const part of candidate?.content?.parts || []) {
+    if (part.inlineData?.data) {
+      return {
+        base64: part.inlineData.data,
+        mimeType: part.inlineData.mimeType || 'image/png',
+        metadata: {
+          provider: 'gemini',
+          model: settings.imageModel,
+          durationMs: Date.now() - startedAt,
+          usage: toTokenUsage(response)
+        }
+      };
     }
   }
 
-  if (!imageUrl) throw new Error("No image was generated by the model.");
-  return imageUrl;
+  // The model sometimes answers with text instead, which usually says why
+  const text = response.text?.trim();
+  throw new ProviderError(`No image was generated by the model.${text ? ` Response: ${text.slice(0, 300)}` : ''}`, { kind: 'no_image' });
+};
+
+export const geminiImageProvider: ImageProvider = {
+  type: 'gemini',
+  get label() {
+    return `Gemini (${loadGeminiSettings().imageModel})`;
+  },
+  generate: generateImage
+};
+
+// The checklist is answered as JSON so no parsing of free text is needed
+const QUALITY_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    containsText: { type: Type.BOOLEAN, description: 'Any visible text, letters, numbers or writing' },
+    containsAnimal: { type: Type.BOOLEAN, description: 'Any animal, or an animal-like main character' },
+    matchesSentence: { type: Type.BOOLEAN, description: 'A learner would connect the image to the sentence' },
+    matchesStyle: { type: Type.BOOLEAN, description: 'The image follows the requested art style' },
+    score: { type: Type.INTEGER, description: '0-100 overall suitability as a textbook illustration for the sentence' },
+    notes: { type: Type.STRING, description: 'One short sentence on the main problem, empty if none' }
+  },
+  required: ['containsText', 'containsAnimal', 'matchesSentence', 'matchesStyle', 'score']
+};
+
+const checkImage: ImageChecker['check'] = async (image, context) => {
+  const settings = loadGeminiSettings();
+  const ai = getAIClient(settings);
+  const response = await ai.models.generateContent({
+    model: settings.textModel,
+    contents: {
+      parts: [
+        { inlineData: { mimeType: image.mimeType, data: image.base64 } },
+        { text: `This image was generated to illustrate the English sentence "${context.text}" for language learners, in this style: ${context.styleDescription}. Check it against the checklist.` }
+      ]
+    },
+    config: {
+      responseMimeType: 'application/json',
+      responseSchema: QUALITY_SCHEMA
+    }
+  });
+
+  const result = JSON.parse(response.text || '{}');
+  const flags: QualityFlag[] = [];
+  if (result.containsText) flags.push('contains_text');
+  if (result.containsAnimal) flags.push('contains_animal');
+  if (result.matchesSentence === false) flags.push('sentence_mismatch');
+  if (result.matchesStyle === false) flags.push('style_mismatch');
+  return {
+    quality: {
+      score: Math.max(0, Math.min(100, Math.round(Number(result.score) || 0))),
+      flags,
+      notes: result.notes || undefined,
+      model: settings.textModel,
+      checkedAt: Date.now()
+    },
+    usage: toTokenUsage(response)
+  };
+};
+
+export const geminiImageChecker: ImageChecker = {
+  check: checkImage
 };
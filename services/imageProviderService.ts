@@ -0,0 +1,257 @@
+import { ImageProvider, ImageProviderConfig, ImageGenerationOptions, GeneratedImage, ScenePromptWriter, ImageChecker, QualityFlag } from '../types';
+import { geminiImageProvider, geminiScenePromptWriter, geminiImageChecker } from './geminiService';
+import { ProviderError, parseRetryAfter } from './errorService';
+import { loadGeminiSettings } from './apiSettingsService';
+import { base64ToBlob, blobToBase64 } from './blobService';
+
+export const DEFAULT_PROVIDER_CONFIG: ImageProviderConfig = { type: 'gemini' };
+
+const DEFAULT_SIZE = 1024;
+const MOCK_SIZE = 512;
+const MOCK_LATENCY_MS = 300;
+
+export const fromDataUrl = (dataUrl: string): Pick<GeneratedImage, 'base64' | 'mimeType'> => {
+  const [header, base64] = dataUrl.split(',');
+  return { base64, mimeType: header.match(/^data:([^;]+)/)?.[1] || 'image/png' };
+};
+
+export const toBlob = (image: GeneratedImage): Blob => base64ToBlob(image.base64, image.mimeType);
+
+export const fromBlob = async (blob: Blob): Promise<Pick<GeneratedImage, 'base64' | 'mimeType'>> => {
+  return { base64: await blobToBase64(blob), mimeType: blob.type || 'image/png' };
+};
+
+// Only Gemini takes image inputs; the other backends drop style and character references
+export const supportsReferenceImages = (config: ImageProviderConfig): boolean => config.type === 'gemini';
+
+// Resolve width/height from explicit options or a "W:H" aspect ratio.
+const resolveSize = (options: ImageGenerationOptions, base: number): { width: number; height: number } => {
+  if (options.width && options.height) return { width: options.width, height: options.height };
+  const [w, h] = (options.aspectRatio || '1:1').split(':').map(Number);
+  if (!w || !h) return { width: base, height: base };
+  // Round to a multiple of 64, which most diffusion backends expect
+  const round = (n: number) => Math.max(64, Math.round(n / 64) * 64);
+  return w >= h
+    ? { width: base, height: round(base * h / w) }
+    : { width: round(base * w / h), height: base };
+};
+
+// === HTTP Provider (OpenAI-compatible / Automatic1111) ===
+
+const createHttpImageProvider = (config: ImageProviderConfig): ImageProvider => {
+  const api = config.api || 'openai';
+  const baseUrl = (config.baseUrl || '').replace(/\/+$/, '');
+
+  const postJson = async (path: string, body: unknown): Promise<any> => {
+    if (!baseUrl) throw new Error("HTTP image provider has no base URL configured.");
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (config.apiKey) headers['Authorization'] = `Bearer ${config.apiKey}`;
+
+    const response = await fetch(`${baseUrl}${path}`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(body)
+    });
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new ProviderError(`HTTP ${response.status} from ${baseUrl}${path}: ${detail.slice(0, 300)}`, {
+        status: response.status,
+        retryAfterMs: parseRetryAfter(response.headers.get('Retry-After'))
+      });
+    }
+    return response.json();
+  };
+
+  const generate = async (prompt: string, options: ImageGenerationOptions = {}): Promise<GeneratedImage> => {
+    const startedAt = Date.now();
+    const { width, height } = resolveSize(options, DEFAULT_SIZE);
+
+    if (api === 'automatic1111') {
+      const data = await postJson('/sdapi/v1/txt2img', {
+        prompt,
+        negative_prompt: options.negativePrompt || '',
+        width,
+        height,
+        seed: options.seed ?? -1,
+        ...(config.model ? { override_settings: { sd_model_checkpoint: config.model } } : {})
+      });
+      const base64 = data?.images?.[0];
+      if (!base64) throw new Error("No image was returned by the Automatic1111 backend.");
+
+      let seed: number | undefined;
+      try {
+        seed = JSON.parse(data.info)?.seed;
+      } catch (e) {}
+
+      return {
+        base64,
+        mimeType: 'image/png',
+        metadata: { provider: 'http', model: config.model || 'automatic1111', width, height, seed, durationMs: Date.now() - startedAt }
+      };
+    }
+
+    // OpenAI images API has no negative prompt, so fold it into the prompt text
+    const fullPrompt = options.negativePrompt ? `${prompt}\nAvoid: ${options.negativePrompt}` : prompt;
+    const data = await postJson('/v1/images/generations', {
+      model: config.model || undefined,
+      prompt: fullPrompt,
+      n: 1,
+      size: `${width}x${height}`,
+      response_format: 'b64_json'
+    });
+    const base64 = data?.data?.[0]?.b64_json;
+    if (!base64) throw new Error("No image was returned by the OpenAI-compatible backend.");
+
+    return {
+      base64,
+      mimeType: 'image/png',
+      metadata: { provider: 'http', model: config.model || 'default', width, height, durationMs: Date.now() - startedAt }
+    };
+  };
+
+  return {
+    type: 'http',
+    label: `${api === 'automatic1111' ? 'Automatic1111' : 'OpenAI-compatible'} (${baseUrl || 'no URL'})`,
+    generate
+  };
+};
+
+// === Mock Provider (offline, deterministic) ===
+
+// FNV-1a string hash, used to seed the placeholder renderer
+const hashString = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// mulberry32 PRNG
+const createRandom = (seed: number) => {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const renderPlaceholder = (prompt: string, width: number, height: number, seed: number): string => {
+  const random = createRandom(seed);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas 2D context is not available.");
+
+  const hue = Math.floor(random() * 360);
+  const gradient = ctx.createLinearGradient(0, 0, width, height);
+  gradient.addColorStop(0, `hsl(${hue}, 60%, 85%)`);
+  gradient.addColorStop(1, `hsl(${(hue + 60) % 360}, 60%, 70%)`);
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, width, height);
+
+  const shapes = 5 + Math.floor(random() * 6);
+  for (let i = 0; i < shapes; i++) {
+    ctx.fillStyle = `hsla(${(hue + random() * 180) % 360}, 70%, 55%, 0.6)`;
+    const x = random() * width;
+    const y = random() * height;
+    const size = (0.05 + random() * 0.2) * Math.min(width, height);
+    ctx.beginPath();
+    if (random() > 0.5) {
+      ctx.arc(x, y, size, 0, Math.PI * 2);
+    } else {
+      ctx.rect(x - size, y - size, size * 2, size * 2);
+    }
+    ctx.fill();
+  }
+
+  ctx.fillStyle = 'rgba(15, 23, 42, 0.75)';
+  ctx.font = `bold ${Math.round(width / 16)}px sans-serif`;
+  ctx.textAlign = 'center';
+  ctx.fillText('MOCK', width / 2, height / 2);
+  ctx.font = `${Math.round(width / 32)}px monospace`;
+  ctx.fillText(`#${hashString(prompt).toString(16).padStart(8, '0')}`, width / 2, height / 2 + width / 14);
+
+  return canvas.toDataURL('image/png').split(',')[1];
+};
+
+const createMockImageProvider = (latencyMs: number = MOCK_LATENCY_MS): ImageProvider => ({
+  type: 'mock',
+  label: 'Mock (offline placeholders)',
+  generate: async (prompt: string, options: ImageGenerationOptions = {}): Promise<GeneratedImage> => {
+    const startedAt = Date.now();
+    await new Promise(resolve => setTimeout(resolve, latencyMs));
+
+    const { width, height } = resolveSize(options, MOCK_SIZE);
+    const seed = options.seed ?? hashString(`${prompt}|${options.negativePrompt || ''}`);
+    return {
+      base64: renderPlaceholder(prompt, width, height, seed),
+      mimeType: 'image/png',
+      metadata: { provider: 'mock', model: 'mock-placeholder', width, height, seed, durationMs: Date.now() - startedAt }
+    };
+  }
+});
+
+export const createImageProvider = (config: ImageProviderConfig): ImageProvider => {
+  switch (config.type) {
+    case 'http':
+      return createHttpImageProvider(config);
+    case 'mock':
+      return createMockImageProvider();
+    case 'gemini':
+    default:
+      return geminiImageProvider;
+  }
+};
+
+// Offline stand-in for the scene prompt stage
+const mockScenePromptWriter: ScenePromptWriter = {
+  describe: async (text: string) => {
+    await new Promise(resolve => setTimeout(resolve, MOCK_LATENCY_MS));
+    return {
+      text: `A clear, friendly scene showing: ${text.replace(/[.!?]+$/, '')}. One main subject in the center, simple background.`,
+      model: 'mock'
+    };
+  }
+};
+
+// Model names as they appear in image metadata, for logging calls that failed
+export const getProviderModel = (config: ImageProviderConfig): string => {
+  if (config.type === 'gemini') return loadGeminiSettings().imageModel;
+  if (config.type === 'mock') return 'mock-placeholder';
+  return config.model || (config.api === 'automatic1111' ? 'automatic1111' : 'default');
+};
+
+export const getScenePromptModel = (config: ImageProviderConfig): string => {
+  return config.type === 'mock' ? 'mock' : loadGeminiSettings().textModel;
+};
+
+// The HTTP image backends have no text model, so they share Gemini's prompt writer
+export const createScenePromptWriter = (config: ImageProviderConfig): ScenePromptWriter => {
+  return config.type === 'mock' ? mockScenePromptWriter : geminiScenePromptWriter;
+};
+
+// Offline stand-in for the quality check: a stable pseudo-random verdict per image,
+// failing often enough to exercise the regenerate and review paths
+const mockImageChecker: ImageChecker = {
+  check: async (image) => {
+    await new Promise(resolve => setTimeout(resolve, MOCK_LATENCY_MS));
+    // The tail of the data differs between images and keeps hashing cheap
+    const random = createRandom(hashString(image.base64.slice(-4096)));
+    const score = 50 + Math.floor(random() * 51);
+    const flags: QualityFlag[] = [];
+    if (random() < 0.08) flags.push('contains_text');
+    if (random() < 0.05) flags.push('contains_animal');
+    if (score < 60) flags.push('sentence_mismatch');
+    return { quality: { score, flags, model: 'mock', checkedAt: Date.now() } };
+  }
+};
+
+// Checks are answered by Gemini's multimodal text model, like scene prompts
+export const createImageChecker = (config: ImageProviderConfig): ImageChecker => {
+  return config.type === 'mock' ? mockImageChecker : geminiImageChecker;
+};
@@ -0,0 +1,163 @@
+import { EnglishSentence, FieldDefinition, GeneratedWithin, ImageMeta, ListQuery, SearchMode, SortKey } from '../types';
+import { matchesFieldValue } from './fieldService';
+import { isUnreviewed } from './reviewService';
+
+export const DEFAULT_LIST_QUERY: ListQuery = {
+  search: '',
+  searchMode: 'text',
+  filter: 'all',
+  statuses: [],
+  errorKinds: [],
+  field: null,
+  generated: 'any',
+  sortKey: 'list',
+  sortDescending: false
+};
+
+export const SEARCH_MODE_LABELS: Record<SearchMode, string> = {
+  text: 'Contains',
+  word: 'Whole word',
+  regex: 'Regex'
+};
+
+export const SORT_KEY_LABELS: Record<SortKey, string> = {
+  list: 'List order',
+  id: 'ID',
+  length: 'Text length',
+  generated: 'Generated at'
+};
+
+export const GENERATED_LABELS: Record<GeneratedWithin, string> = {
+  any: 'Any time',
+  today: 'Today',
+  week: 'Last 7 days',
+  month: 'Last 30 days',
+  range: 'Between dates'
+};
+
+export const STATUS_LABELS: Record<EnglishSentence['status'], string> = {
+  pending: 'Pending',
+  processing: 'Processing',
+  completed: 'Generated',
+  error: 'Failed'
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+export interface SearchMatcher {
+  matches: (value: string) => boolean;
+  // Set when a regex doesn't compile; the search is then ignored rather than hiding every row
+  error?: string;
+}
+
+export const createSearchMatcher = (search: string, mode: SearchMode): SearchMatcher => {
+  if (mode === 'text') {
+    const needle = search.toLowerCase();
+    return { matches: value => value.toLowerCase().includes(needle) };
+  }
+  try {
+    const pattern = new RegExp(mode === 'word' ? `\\b${escapeRegExp(search)}\\b` : search, 'i');
+    return { matches: value => pattern.test(value) };
+  } catch (e) {
+    return { matches: () => true, error: e instanceof Error ? e.message : 'Invalid pattern' };
+  }
+};
+
+// Local midnight, so "today" follows the user's calendar rather than UTC
+const startOfDay = (time: number) => {
+  const date = new Date(time);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+};
+
+const parseDate = (value?: string) => value ? new Date(`${value}T00:00:00`).getTime() : NaN;
+
+// [from, to) in epoch milliseconds; open ends are infinite
+export const getGeneratedWindow = (query: ListQuery, now = Date.now()): [number, number] | null => {
+  switch (query.generated) {
+    case 'any': return null;
+    case 'today': return [startOfDay(now), Infinity];
+    case 'week': return [now - 7 * DAY_MS, Infinity];
+    case 'month': return [now - 30 * DAY_MS, Infinity];
+    case 'range': {
+      const from = parseDate(query.generatedFrom);
+      const to = parseDate(query.generatedTo);
+      return [Number.isNaN(from) ? -Infinity : from, Number.isNaN(to) ? Infinity : to + DAY_MS];
+    }
+  }
+};
+
+// True when the query hides anything; sorting alone doesn't count
+export const isFiltered = (query: ListQuery): boolean =>
+  query.search !== '' ||
+  query.filter !== 'all' ||
+  query.statuses.length > 0 ||
+  query.errorKinds.length > 0 ||
+  query.field !== null ||
+  query.generated !== 'any';
+
+interface QueryContext {
+  imageMeta: Record<string, ImageMeta>;
+  fields: FieldDefinition[];
+  now?: number;
+}
+
+export const filterSentences = (sentences: EnglishSentence[], query: ListQuery, { imageMeta, fields, now }: QueryContext): EnglishSentence[] => {
+  const matchesFilter = (s: EnglishSentence) => {
+    switch (query.filter) {
+      case 'all': return true;
+      case 'failed': return s.status === 'error';
+      case 'flagged': return !!s.flaggedForReview;
+      case 'stale': return !!s.stale;
+      case 'unreviewed': return isUnreviewed(s);
+      default: return s.review === query.filter;
+    }
+  };
+  const field = query.field && fields.find(f => f.name === query.field!.name);
+  const generatedWindow = getGeneratedWindow(query, now);
+  const { matches } = createSearchMatcher(query.search, query.searchMode);
+  // Also matches how the image was made, e.g. a model name or a word from the prompt
+  const matchesMeta = (meta?: ImageMeta) => !!meta && [meta.prompt, meta.styleDescription, meta.model]
+    .some(value => !!value && matches(value));
+  const matchesSearch = (s: EnglishSentence) => query.search === '' || (
+    matches(s.english_text) ||
+    matches(s.id) ||
+    Object.values<string>(s.fields || {}).some(matches) ||
+    matchesMeta(imageMeta[s.id])
+  );
+  const matchesGenerated = (s: EnglishSentence) => {
+    if (!generatedWindow) return true;
+    const createdAt = imageMeta[s.id]?.createdAt;
+    return s.status === 'completed' && createdAt !== undefined && createdAt >= generatedWindow[0] && createdAt < generatedWindow[1];
+  };
+
+  return sentences.filter(s =>
+    matchesFilter(s) &&
+    (query.statuses.length === 0 || query.statuses.includes(s.status)) &&
+    (query.errorKinds.length === 0 || (s.status === 'error' && query.errorKinds.includes(s.errorKind || 'unknown'))) &&
+    (!field || matchesFieldValue(s, field, query.field!.value)) &&
+    matchesGenerated(s) &&
+    matchesSearch(s)
+  );
+};
+
+// Stable, so equal keys keep the list order; rows never generated sort last either way
+export const sortSentences = (sentences: EnglishSentence[], query: ListQuery, imageMeta: Record<string, ImageMeta>): EnglishSentence[] => {
+  if (query.sortKey === 'list') return sentences;
+  const direction = query.sortDescending ? -1 : 1;
+  const compare = (a: EnglishSentence, b: EnglishSentence): number => {
+    switch (query.sortKey) {
+      case 'id': return direction * a.id.localeCompare(b.id, undefined, { numeric: true });
+      case 'length': return direction * (a.english_text.length - b.english_text.length);
+      default: {
+        const aTime = a.status === 'completed' ? imageMeta[a.id]?.createdAt : undefined;
+        const bTime = b.status === 'completed' ? imageMeta[b.id]?.createdAt : undefined;
+        if (aTime === undefined || bTime === undefined) return aTime !== undefined ? -1 : bTime !== undefined ? 1 : 0;
+        return direction * (aTime - bTime);
+      }
+    }
+  };
+  return [...sentences].sort(compare);
+};
@@ -0,0 +1,104 @@
+import { ProjectSettings, Project, PromptTemplate } from '../types';
+import { getSetting, saveSetting, getAllProjects, saveProject, deleteProjectRecord, deleteDatabase, setActiveDatabase, DEFAULT_DB_NAME } from './dbService';
+import { DEFAULT_PROVIDER_CONFIG } from './imageProviderService';
+import { DEFAULT_SCHEDULER_OPTIONS } from './schedulerService';
+import { DEFAULT_STYLE_DESCRIPTION, DEFAULT_PROMPT_TEMPLATE } from './promptService';
+import { DEFAULT_QUALITY_SETTINGS } from './qualityService';
+
+const PROJECT_SETTINGS_KEY = 'project';
+const TEMPLATE_HISTORY_KEY = 'promptTemplateHistory';
+const ACTIVE_PROJECT_KEY = 'english-visualizer.activeProject';
+const DEFAULT_PROJECT_ID = 'default';
+
+export const DEFAULT_PROJECT_SETTINGS: ProjectSettings = {
+  styleDescription: DEFAULT_STYLE_DESCRIPTION,
+  batchSize: 10,
+  providerConfig: DEFAULT_PROVIDER_CONFIG,
+  schedulerOptions: DEFAULT_SCHEDULER_OPTIONS,
+  twoStage: false,
+  promptTemplate: DEFAULT_PROMPT_TEMPLATE,
+  styleReferenceIds: [],
+  candidateCount: 1,
+  historyLimit: 10,
+  qualityCheck: DEFAULT_QUALITY_SETTINGS,
+  fieldDefinitions: [],
+  savedViews: []
+};
+
+// Stored settings are merged over the defaults so fields added later get sane values
+export const loadProjectSettings = async (): Promise<ProjectSettings> => {
+  const stored = await getSetting<Partial<ProjectSettings>>(PROJECT_SETTINGS_KEY);
+  return {
+    ...DEFAULT_PROJECT_SETTINGS,
+    ...stored,
+    schedulerOptions: { ...DEFAULT_SCHEDULER_OPTIONS, ...stored?.schedulerOptions },
+    qualityCheck: { ...DEFAULT_QUALITY_SETTINGS, ...stored?.qualityCheck }
+  };
+};
+
+export const saveProjectSettings = (settings: ProjectSettings): Promise<void> => {
+  return saveSetting(PROJECT_SETTINGS_KEY, settings);
+};
+
+// Every saved template version is kept so an image's templateVersion can be looked up later
+export const getPromptTemplateHistory = async (): Promise<PromptTemplate[]> => {
+  return (await getSetting<PromptTemplate[]>(TEMPLATE_HISTORY_KEY)) || [];
+};
+
+export const savePromptTemplateVersion = async (template: PromptTemplate): Promise<void> => {
+  const history = await getPromptTemplateHistory();
+  await saveSetting(TEMPLATE_HISTORY_KEY, [...history.filter(t => t.version !== template.version), template]);
+};
+
+// === Projects ===
+
+// The registry is created on first run with a project wrapping the pre-existing database
+export const listProjects = async (): Promise<Project[]> => {
+  const projects = await getAllProjects();
+  if (projects.length > 0) return projects;
+
+  const now = Date.now();
+  const defaultProject: Project = {
+    id: DEFAULT_PROJECT_ID,
+    name: 'Default Project',
+    dbName: DEFAULT_DB_NAME,
+    createdAt: now,
+    updatedAt: now
+  };
+  await saveProject(defaultProject);
+  return [defaultProject];
+};
+
+export const createProject = async (name: string): Promise<Project> => {
+  const id = crypto.randomUUID();
+  const now = Date.now();
+  const project: Project = { id, name, dbName: `${DEFAULT_DB_NAME}_${id}`, createdAt: now, updatedAt: now };
+  await saveProject(project);
+  return project;
+};
+
+export const renameProject = async (project: Project, name: string): Promise<Project> => {
+  const renamed = { ...project, name, updatedAt: Date.now() };
+  await saveProject(renamed);
+  return renamed;
+};
+
+export const removeProject = async (project: Project): Promise<void> => {
+  await deleteProjectRecord(project.id);
+  await deleteDatabase(project.dbName);
+};
+
+export const getActiveProjectId = (): string | null => {
+  return localStorage.getItem(ACTIVE_PROJECT_KEY);
+};
+
+// Points dbService at the project's database; callers reload their state afterwards
+export const activateProject = (project: Project) => {
+  setActiveDatabase(project.dbName);
+  localStorage.setItem(ACTIVE_PROJECT_KEY, project.id);
+};
+
+// Used for export file names
+export const getProjectSlug = (project: Project): string => {
+  return project.name.trim().toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '_').replace(/^_+|_+$/g, '') || project.id;
+};
@@ -0,0 +1,63 @@
+import { EnglishSentence, PromptTemplate } from '../types';
+
+export const DEFAULT_STYLE_DESCRIPTION = "educational manga illustration, flat color style, friendly character design, clear composition, simple background, textbook illustration art";
+
+export const DEFAULT_NEGATIVE_PROMPT = ["text", "english text", "writing", "words", "letters", "signature", "watermark", "typography", "label", "caption", "animal", "dog", "cat", "creature", "furry", "beast", "pet", "anthropomorphic animal"];
+
+// {{#name}}...{{/name}} sections are dropped when `name` is empty
+export const DEFAULT_TEMPLATE_BODY = 'Create an image for the English sentence: "{{text}}".{{#scene}} Scene: {{scene}}.{{/scene}}{{#characters}} Characters: {{characters}}.{{/characters}}{{#notes}} Notes: {{notes}}.{{/notes}} Style: {{style}}. Ensure the tone and manner matches the described style. Do not include any text, words, or letters in the image. If there is a protagonist, they must be human, not an animal.';
+
+export const DEFAULT_PROMPT_TEMPLATE: PromptTemplate = {
+  version: 1,
+  body: DEFAULT_TEMPLATE_BODY,
+  negativePrompt: DEFAULT_NEGATIVE_PROMPT,
+  updatedAt: 0
+};
+
+export const BUILT_IN_PLACEHOLDERS = ['text', 'style', 'scene', 'characters', 'notes'];
+
+export type PromptContext = Record<string, string>;
+
+export const buildPromptContext = (
+  sentence: EnglishSentence,
+  styleDescription: string,
+  options: { useScene?: boolean; characters?: string } = {}
+): PromptContext => {
+  const scene = options.useScene ? (sentence.visualPrompt || '').trim().replace(/[.\s]+$/, '') : '';
+  return {
+    // Custom CSV columns first so they can't shadow the built-ins
+    ...sentence.fields,
+    text: sentence.english_text,
+    style: styleDescription || DEFAULT_STYLE_DESCRIPTION,
+    scene,
+    characters: options.characters || '',
+    notes: sentence.fields?.notes || ''
+  };
+};
+
+export const renderPromptTemplate = (body: string, context: PromptContext): string => {
+  const lookup = (name: string) => (context[name.trim()] ?? '').trim();
+  // Names are anything but braces, # and /, so columns like "Japanese translation" or "和訳" work
+  return body
+    .replace(/\{\{#\s*([^{}#/]+?)\s*\}\}([\s\S]*?)\{\{\/\s*\1\s*\}\}/g, (_, name, inner) => lookup(name) ? inner : '')
+    .replace(/\{\{\s*([^{}#/]+?)\s*\}\}/g, (_, name) => lookup(name))
+    .replace(/[ \t]{2,}/g, ' ')
+    .trim();
+};
+
+export const renderNegativePrompt = (template: PromptTemplate): string => {
+  return template.negativePrompt.map(term => term.trim()).filter(Boolean).join(', ');
+};
+
+// Every name the template reads, in order of first use
+export const getPlaceholders = (body: string): string[] => {
+  const names = new Set<string>();
+  for (const match of body.matchAll(/\{\{[#/]?\s*([^{}#/]+?)\s*\}\}/g)) names.add(match[1].trim());
+  return Array.from(names);
+};
+
+// Placeholders that neither a built-in nor an imported column can fill
+export const findUnknownPlaceholders = (body: string, fieldNames: string[]): string[] => {
+  const known = new Set([...BUILT_IN_PLACEHOLDERS, ...fieldNames]);
+  return getPlaceholders(body).filter(name => !known.has(name));
+};
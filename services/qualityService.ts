@@ -0,0 +1,33 @@
+import { ImageMeta, QualityCheck, QualityFlag, QualitySettings } from '../types';
+import { getImageMeta, saveImageMeta, getVariants, saveVariants } from './dbService';
+
+export const QUALITY_FLAG_LABELS: Record<QualityFlag, string> = {
+  contains_text: 'Contains text',
+  contains_animal: 'Contains an animal',
+  sentence_mismatch: 'Does not match the sentence',
+  style_mismatch: 'Off style'
+};
+
+export const DEFAULT_QUALITY_SETTINGS: QualitySettings = {
+  enabled: false,
+  minScore: 60,
+  onFail: 'review'
+};
+
+// Any flag fails the image, whatever the score
+export const passesQualityCheck = (quality: QualityCheck, settings: QualitySettings): boolean => {
+  return quality.flags.length === 0 && quality.score >= settings.minScore;
+};
+
+// Stores the verdict on the current image and on the variant it was selected from,
+// so it survives switching versions back and forth
+export const saveQualityResult = async (sentenceId: string, quality: QualityCheck): Promise<ImageMeta> => {
+  const current = await getImageMeta(sentenceId);
+  const meta: ImageMeta = { ...(current || { id: sentenceId, prompt: '', negativePrompt: '', createdAt: 0 }), quality };
+  await saveImageMeta(meta);
+  if (meta.variantId) {
+    const variant = (await getVariants(sentenceId)).find(v => v.id === meta.variantId);
+    if (variant) await saveVariants([{ ...variant, quality }]);
+  }
+  return meta;
+};
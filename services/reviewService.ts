@@ -0,0 +1,21 @@
+import { EnglishSentence, ReviewStatus } from '../types';
+
+export const REVIEW_LABELS: Record<ReviewStatus, string> = {
+  approved: 'Approved',
+  rejected: 'Rejected',
+  needs_regeneration: 'Needs regeneration'
+};
+
+// An image nobody has signed off yet
+export const isUnreviewed = (sentence: EnglishSentence): boolean => {
+  return sentence.status === 'completed' && !sentence.review;
+};
+
+// A review decision also settles any quality flag on the image
+export const applyReview = (sentence: EnglishSentence, review: ReviewStatus, note?: string): EnglishSentence => ({
+  ...sentence,
+  review,
+  reviewNote: note || undefined,
+  reviewedAt: Date.now(),
+  flaggedForReview: undefined
+});
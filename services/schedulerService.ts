@@ -0,0 +1,267 @@
+import { SchedulerOptions } from '../types';
+import { getRateLimitInfo, isRetryable, BudgetExceededError } from './errorService';
+
+export const DEFAULT_SCHEDULER_OPTIONS: SchedulerOptions = {
+  concurrency: 2,
+  requestsPerMinute: 10,
+  maxAttempts: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 60000
+};
+
+export type PauseReason = 'manual' | 'rate_limit' | 'quota' | 'budget';
+
+export interface SchedulerStats {
+  total: number;
+  completed: number;
+  failed: number;
+  inFlight: number;
+  queued: number;
+  startedAt: number;
+  throughputPerMinute: number;
+  etaMs: number | null;
+  // Infinity while paused until a manual resume
+  pausedUntil: number | null;
+  pauseReason: PauseReason | null;
+}
+
+export interface SchedulerHandlers<T> {
+  run: (item: T, attempt: number) => Promise<void>;
+  onStart?: (item: T, attempt: number) => void;
+  onSuccess?: (item: T) => void;
+  onFailure?: (item: T, error: unknown) => void;
+  onRetry?: (item: T, attempt: number, delayMs: number, error: unknown) => void;
+  onCancel?: (item: T) => void;
+  onStats?: (stats: SchedulerStats) => void;
+}
+
+interface QueueEntry<T> {
+  item: T;
+  attempt: number;
+  readyAt: number;
+}
+
+// Exponential backoff with "equal jitter": half fixed, half random
+export const getBackoffDelay = (attempt: number, options: Pick<SchedulerOptions, 'baseDelayMs' | 'maxDelayMs'>): number => {
+  const exp = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** Math.max(0, attempt - 1));
+  return Math.round(exp / 2 + Math.random() * exp / 2);
+};
+
+export const createGenerationScheduler = <T>(handlers: SchedulerHandlers<T>, options: SchedulerOptions = DEFAULT_SCHEDULER_OPTIONS) => {
+  const queue: QueueEntry<T>[] = [];
+  const wakers = new Set<() => void>();
+  let total = 0;
+  let completed = 0;
+  let failed = 0;
+  let inFlight = 0;
+  let startedAt = Date.now();
+  let nextSlotAt = 0;
+  let consecutiveRateLimits = 0;
+  let pausedUntil: number | null = null;
+  let pauseReason: SchedulerStats['pauseReason'] = null;
+  let cancelled = false;
+
+  const getStats = (): SchedulerStats => {
+    const done = completed + failed;
+    const elapsedMinutes = (Date.now() - startedAt) / 60000;
+    const throughputPerMinute = elapsedMinutes > 0 ? done / elapsedMinutes : 0;
+    const remaining = total - done;
+    return {
+      total,
+      completed,
+      failed,
+      inFlight,
+      queued: queue.length,
+      startedAt,
+      throughputPerMinute,
+      etaMs: throughputPerMinute > 0 ? (remaining / throughputPerMinute) * 60000 : null,
+      pausedUntil,
+      pauseReason
+    };
+  };
+
+  const emitStats = () => handlers.onStats?.(getStats());
+
+  const wakeAll = () => {
+    wakers.forEach(wake => wake());
+    wakers.clear();
+  };
+
+  // Sleeps for `ms` or until woken by resume() / cancel()
+  const sleep = (ms: number) => new Promise<void>(resolve => {
+    const wake = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    const timer = setTimeout(() => {
+      wakers.delete(wake);
+      resolve();
+    }, Math.min(ms, 2 ** 31 - 1));
+    wakers.add(wake);
+  });
+
+  const pauseFor = (reason: PauseReason, durationMs: number) => {
+    const until = Date.now() + durationMs;
+    // Never shorten an existing pause
+    if (pausedUntil === null || until > pausedUntil) {
+      pausedUntil = until;
+      pauseReason = reason;
+      emitStats();
+    }
+  };
+
+  // In-flight requests finish; nothing new starts until resume()
+  const pause = () => pauseFor('manual', Infinity);
+
+  const resume = () => {
+    pausedUntil = null;
+    pauseReason = null;
+    nextSlotAt = 0;
+    emitStats();
+    wakeAll();
+  };
+
+  // Drops everything still queued, handing each item back, and lets in-flight requests finish
+  const cancel = () => {
+    cancelled = true;
+    const dropped = queue.splice(0);
+    pausedUntil = null;
+    pauseReason = null;
+    dropped.forEach(entry => handlers.onCancel?.(entry.item));
+    emitStats();
+    wakeAll();
+  };
+
+  // Blocks until the queue is not paused and a request slot is free
+  const acquireSlot = async (): Promise<boolean> => {
+    const interval = 60000 / Math.max(1, options.requestsPerMinute);
+    while (!cancelled) {
+      const now = Date.now();
+      if (pausedUntil !== null) {
+        if (now < pausedUntil) {
+          await sleep(pausedUntil - now);
+          continue;
+        }
+        pausedUntil = null;
+        pauseReason = null;
+        emitStats();
+      }
+      if (now < nextSlotAt) {
+        await sleep(nextSlotAt - now);
+        continue;
+      }
+      nextSlotAt = now + interval;
+      return true;
+    }
+    return false;
+  };
+
+  const takeReady = (): QueueEntry<T> | number | null => {
+    if (queue.length === 0) return null;
+    const now = Date.now();
+    const index = queue.findIndex(entry => entry.readyAt <= now);
+    if (index >= 0) return queue.splice(index, 1)[0];
+    return Math.min(...queue.map(entry => entry.readyAt)) - now;
+  };
+
+  const handleError = (entry: QueueEntry<T>, error: unknown) => {
+    if (error instanceof BudgetExceededError) {
+      // Stays paused until someone raises the budget and resumes
+      if (cancelled) {
+        handlers.onCancel?.(entry.item);
+        return;
+      }
+      queue.unshift({ ...entry, readyAt: 0 });
+      pauseFor('budget', Infinity);
+      handlers.onRetry?.(entry.item, entry.attempt, Infinity, error);
+      return;
+    }
+
+    const rateLimit = getRateLimitInfo(error);
+    if (rateLimit) {
+      // Rate limits pause the whole queue and don't count against the item's attempts
+      consecutiveRateLimits++;
+      if (cancelled) {
+        handlers.onCancel?.(entry.item);
+        return;
+      }
+      queue.unshift({ ...entry, readyAt: 0 });
+      const delayMs = rateLimit.kind === 'quota'
+        ? Infinity
+        : rateLimit.retryAfterMs ?? getBackoffDelay(consecutiveRateLimits, options);
+      pauseFor(rateLimit.kind, delayMs);
+      handlers.onRetry?.(entry.item, entry.attempt, delayMs, error);
+      return;
+    }
+
+    // Would have been retried, so it isn't the item's fault; hand it back like a queued one
+    if (cancelled && isRetryable(error)) {
+      handlers.onCancel?.(entry.item);
+      return;
+    }
+
+    if (entry.attempt < options.maxAttempts && isRetryable(error)) {
+      const delayMs = getBackoffDelay(entry.attempt, options);
+      handlers.onRetry?.(entry.item, entry.attempt, delayMs, error);
+      queue.push({ item: entry.item, attempt: entry.attempt + 1, readyAt: Date.now() + delayMs });
+      return;
+    }
+
+    failed++;
+    handlers.onFailure?.(entry.item, error);
+  };
+
+  const worker = async () => {
+    while (!cancelled) {
+      const next = takeReady();
+      if (next === null) {
+        // Another worker may still requeue a retry
+        if (inFlight === 0) return;
+        await sleep(250);
+        continue;
+      }
+      if (typeof next === 'number') {
+        await sleep(next);
+        continue;
+      }
+
+      inFlight++;
+      try {
+        if (!(await acquireSlot())) {
+          // Cancelled while waiting: hand the item back untouched
+          handlers.onCancel?.(next.item);
+          continue;
+        }
+        handlers.onStart?.(next.item, next.attempt);
+        emitStats();
+        await handlers.run(next.item, next.attempt);
+        consecutiveRateLimits = 0;
+        completed++;
+        handlers.onSuccess?.(next.item);
+      } catch (error) {
+        handleError(next, error);
+      } finally {
+        inFlight--;
+        emitStats();
+      }
+    }
+  };
+
+  // `firstAttempt` lets a resumed queue carry over attempts made before a reload
+  const run = async (items: T[], firstAttempt: (item: T) => number = () => 1): Promise<SchedulerStats> => {
+    items.forEach(item => queue.push({ item, attempt: firstAttempt(item), readyAt: 0 }));
+    total = items.length;
+    completed = 0;
+    failed = 0;
+    startedAt = Date.now();
+    emitStats();
+
+    const workerCount = Math.max(1, Math.min(options.concurrency, items.length));
+    await Promise.all(Array.from({ length: workerCount }, () => worker()));
+    return getStats();
+  };
+
+  return { run, pause, resume, cancel, getStats };
+};
+
+export type GenerationScheduler<T> = ReturnType<typeof createGenerationScheduler<T>>;
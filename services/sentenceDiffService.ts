@@ -0,0 +1,54 @@
+import { EnglishSentence } from '../types';
+import { editSentence } from './sentenceEditService';
+
+export type ImportMode = 'merge' | 'replace';
+
+export interface SentenceDiff {
+  added: EnglishSentence[];
+  // In the current list but not in the import
+  removed: EnglishSentence[];
+  textChanged: { before: EnglishSentence; after: EnglishSentence }[];
+  // Same text, different field values
+  fieldsChanged: number;
+  unchanged: number;
+}
+
+const sameFields = (a?: Record<string, string>, b?: Record<string, string>) => {
+  const aKeys = Object.keys(a || {});
+  const bKeys = Object.keys(b || {});
+  return aKeys.length === bKeys.length && aKeys.every(key => a![key] === b?.[key]);
+};
+
+export const diffSentences = (current: EnglishSentence[], incoming: EnglishSentence[]): SentenceDiff => {
+  const currentById = new Map(current.map(s => [s.id, s] as const));
+  const incomingIds = new Set(incoming.map(s => s.id));
+  const diff: SentenceDiff = { added: [], removed: [], textChanged: [], fieldsChanged: 0, unchanged: 0 };
+
+  for (const after of incoming) {
+    const before = currentById.get(after.id);
+    if (!before) diff.added.push(after);
+    else if (before.english_text !== after.english_text) diff.textChanged.push({ before, after });
+    else if (!sameFields(before.fields, after.fields)) diff.fieldsChanged++;
+    else diff.unchanged++;
+  }
+  diff.removed = current.filter(s => !incomingIds.has(s.id));
+  return diff;
+};
+
+// Merge keeps rows missing from the import and appends new ones; replace follows the import exactly.
+// `promptFields` are the fields the prompt template reads, so changing one marks the image stale.
+export const applyImport = (current: EnglishSentence[], incoming: EnglishSentence[], mode: ImportMode, promptFields: string[] = []): EnglishSentence[] => {
+  const currentById = new Map(current.map(s => [s.id, s] as const));
+  if (mode === 'replace') {
+    return incoming.map(s => {
+      const existing = currentById.get(s.id);
+      return existing ? editSentence(existing, s, promptFields) : s;
+    });
+  }
+  const incomingById = new Map(incoming.map(s => [s.id, s] as const));
+  const merged = current.map(s => {
+    const update = incomingById.get(s.id);
+    return update ? editSentence(s, update, promptFields) : s;
+  });
+  return [...merged, ...incoming.filter(s => !currentById.has(s.id))];
+};
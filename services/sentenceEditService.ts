@@ -0,0 +1,54 @@
+import { EnglishSentence } from '../types';
+
+export interface SentenceEdit {
+  english_text: string;
+  fields?: Record<string, string>;
+}
+
+// Keeps everything known about the sentence. When the change reaches the image prompt, the
+// current image is marked stale and its review is reopened; a new text also reopens the scene prompt.
+// `promptFields` are the fields the prompt template reads.
+export const editSentence = (current: EnglishSentence, edit: SentenceEdit, promptFields: string[] = []): EnglishSentence => {
+  const updated = { ...current, english_text: edit.english_text, fields: edit.fields ?? current.fields };
+  const textChanged = current.english_text !== edit.english_text;
+  const promptChanged = textChanged || promptFields.some(name => (current.fields?.[name] || '') !== (updated.fields?.[name] || ''));
+  if (!promptChanged) return updated;
+  return {
+    ...updated,
+    stale: current.status === 'completed' ? true : undefined,
+    review: undefined,
+    reviewNote: undefined,
+    reviewedAt: undefined,
+    visualPromptStatus: textChanged && current.visualPrompt ? 'draft' : current.visualPromptStatus
+  };
+};
+
+// A row added in the table has no text until it is saved; it must never reach a provider
+export const hasSentenceText = (sentence: EnglishSentence): boolean => sentence.english_text.trim() !== '';
+
+// Continues the numbering of the last ID ("S009" -> "S010"), skipping IDs already taken
+export const nextSentenceId = (sentences: EnglishSentence[]): string => {
+  const ids = new Set(sentences.map(s => s.id));
+  const last = sentences[sentences.length - 1]?.id || '0';
+  const match = last.match(/^(.*?)(\d+)$/);
+  const prefix = match ? match[1] : `${last}-`;
+  const digits = match ? match[2] : '1';
+  let n = Number(digits);
+  let id: string;
+  do {
+    n++;
+    id = prefix + String(n).padStart(digits.length, '0');
+  } while (ids.has(id));
+  return id;
+};
+
+// Moves a sentence to the position of another one, before it when moving up and after it when moving down
+export const moveSentence = (sentences: EnglishSentence[], id: string, targetId: string): EnglishSentence[] => {
+  const from = sentences.findIndex(s => s.id === id);
+  const to = sentences.findIndex(s => s.id === targetId);
+  if (from === -1 || to === -1 || from === to) return sentences;
+  const result = [...sentences];
+  const [moved] = result.splice(from, 1);
+  result.splice(to, 0, moved);
+  return result;
+};
@@ -1,6 +1,8 @@
 
 import initSqlJs from 'sql.js';
-import { iterateImages, saveImage, getAllKeys } from './dbService';
+import { getImages, saveImages, getAllKeys } from './dbService';
+import { blobToDataUrl, dataUrlToBlob } from './blobService';
+import { saveThumbnailsFor } from './thumbnailService';
 
 // Initialize SQL.js
 const getSql = async () => {
@@ -27,22 +29,13 @@ export async function* exportToSQLiteChunks(onProgress?: (progress: number) => v
       db.run("CREATE TABLE images (id TEXT PRIMARY KEY, base64 TEXT);");
       const stmt = db.prepare("INSERT INTO images VALUES (?, ?);");
 
-      // We need to fetch specific keys for this chunk
-      // iterateImages doesn't support seeking easily without scanning, 
-      // but dbService isn't efficient for random access by index.
-      // However, we have 'keys'. We can use 'getImage' for these specific keys.
-      // Note: We need to import 'getImage' from dbService.
-      
-      // To keep it efficient, we might need to modify dbService to get batch, 
-      // but calling getImage in parallel for a batch of 50 is fine.
-      
+      // The table keeps data URLs so exports from before Blob storage import the same way
       const chunkKeys = keys.slice(i, i + CHUNK_SIZE);
-      const { getImage } = await import('./dbService'); // Dynamic import to avoid circular dependency issues if any
-      
+      const images = await getImages(chunkKeys);
       for (const key of chunkKeys) {
-        const base64 = await getImage(key);
-        if (base64) {
-          stmt.run([key, base64]);
+        const image = images.get(key);
+        if (image) {
+          stmt.run([key, await blobToDataUrl(image)]);
         }
         processed++;
         if (onProgress) {
@@ -83,11 +76,19 @@ export const importFromSQLite = async (fileBuffer: ArrayBuffer): Promise<number>
 
     // Read all images
     const stmt = db.prepare("SELECT id, base64 FROM images;");
+    let batch: { id: string; image: Blob }[] = [];
+    const flush = async () => {
+      await saveImages(batch);
+      await saveThumbnailsFor(batch);
+      batch = [];
+    };
     while (stmt.step()) {
       const row = stmt.getAsObject();
-      await saveImage(row.id as string, row.base64 as string);
+      batch.push({ id: row.id as string, image: dataUrlToBlob(row.base64 as string) });
       count++;
+      if (batch.length >= CHUNK_SIZE) await flush();
     }
+    await flush();
     stmt.free();
   } finally {
     db.close();
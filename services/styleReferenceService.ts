@@ -0,0 +1,17 @@
+import { ReferenceImage } from '../types';
+import { getImages } from './dbService';
+import { fromBlob } from './imageProviderService';
+
+// Every reference rides along with every request, so keep the set small
+export const MAX_STYLE_REFERENCES = 3;
+
+const STYLE_REFERENCE_LABEL = 'Style reference: match the art style, line work, colour palette and rendering of this image. Do not copy its content.';
+
+// References whose image has since been deleted are skipped
+export const loadStyleReferenceImages = async (ids: string[]): Promise<ReferenceImage[]> => {
+  const chosen = ids.slice(0, MAX_STYLE_REFERENCES);
+  const images = await getImages(chosen);
+  return Promise.all(chosen
+    .flatMap(id => images.get(id) || [])
+    .map(async image => ({ ...await fromBlob(image), label: STYLE_REFERENCE_LABEL })));
+};
@@ -0,0 +1,77 @@
+import { getActiveDatabase, getImage, getImages, getThumbnail, getIdsWithoutThumbnail, saveThumbnails } from './dbService';
+
+// Short side in pixels: enough for the largest gallery tile on a high-density screen
+const THUMBNAIL_SIZE = 256;
+const THUMBNAIL_TYPE = 'image/webp';
+const THUMBNAIL_QUALITY = 0.8;
+const BACKFILL_BATCH_SIZE = 20;
+
+let backfillRun = 0;
+
+export const createThumbnail = async (image: Blob): Promise<Blob> => {
+  const bitmap = await createImageBitmap(image);
+  try {
+    const scale = Math.min(1, THUMBNAIL_SIZE / Math.min(bitmap.width, bitmap.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+    canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+    canvas.getContext('2d')?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    return await new Promise<Blob>((resolve, reject) => {
+      canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error("Could not encode thumbnail.")), THUMBNAIL_TYPE, THUMBNAIL_QUALITY);
+    });
+  } finally {
+    bitmap.close();
+  }
+};
+
+// Images that cannot be decoded are skipped; the list makes their thumbnail when it needs one
+const createThumbnails = async (images: { id: string; image: Blob }[]): Promise<{ id: string; image: Blob }[]> => {
+  const thumbnails: { id: string; image: Blob }[] = [];
+  for (const { id, image } of images) {
+    try {
+      thumbnails.push({ id, image: await createThumbnail(image) });
+    } catch (e) {
+      console.warn("Failed to create thumbnail for", id, e);
+    }
+  }
+  return thumbnails;
+};
+
+// Called wherever a selected image is saved
+export const saveThumbnailsFor = async (images: { id: string; image: Blob }[]): Promise<void> => {
+  await saveThumbnails(await createThumbnails(images));
+};
+
+// The stored thumbnail, made from the full image the first time it is missing
+export const loadThumbnail = async (id: string): Promise<Blob | null> => {
+  const dbName = getActiveDatabase();
+  const stored = await getThumbnail(id);
+  if (stored) return stored;
+  const image = await getImage(id);
+  if (!image) return null;
+  const [thumbnail] = await createThumbnails([{ id, image }]);
+  if (!thumbnail) return image;
+  // Another project may have been opened meanwhile, with its own image under the same ID
+  if (getActiveDatabase() === dbName) await saveThumbnails([thumbnail]);
+  return thumbnail.image;
+};
+
+// Makes thumbnails for images saved before thumbnails existed, a batch at a time.
+// Stops when another project is opened or another backfill starts.
+export const backfillThumbnails = async (): Promise<number> => {
+  const run = ++backfillRun;
+  const dbName = getActiveDatabase();
+  const stopped = () => run !== backfillRun || getActiveDatabase() !== dbName;
+
+  const ids = await getIdsWithoutThumbnail();
+  let done = 0;
+  for (let i = 0; i < ids.length; i += BACKFILL_BATCH_SIZE) {
+    if (stopped()) break;
+    const images = await getImages(ids.slice(i, i + BACKFILL_BATCH_SIZE));
+    const thumbnails = await createThumbnails(Array.from(images, ([id, image]) => ({ id, image })));
+    if (stopped()) break;
+    await saveThumbnails(thumbnails);
+    done += thumbnails.length;
+  }
+  return done;
+};
@@ -0,0 +1,193 @@
+import { ImageChecker, ImageProvider, ImageProviderConfig, ScenePromptWriter, UnitPrice, UsageRecord, UsageSettings } from '../types';
+import { addUsageRecord } from './dbService';
+import { BudgetExceededError } from './errorService';
+import { getProviderModel, getScenePromptModel } from './imageProviderService';
+
+const USAGE_SETTINGS_KEY = 'english-visualizer.usage';
+
+// List prices at the time of writing; only ever an estimate, and editable in the dashboard
+export const DEFAULT_UNIT_PRICES: Record<string, UnitPrice> = {
+  // Image output is billed per image (1290 output tokens), so only input tokens are added on top
+  'gemini-2.5-flash-image': { perImageUsd: 0.039, inputPerMillionUsd: 0.3, outputPerMillionUsd: 0 },
+  'gemini-3-flash-preview': { perImageUsd: 0, inputPerMillionUsd: 0.5, outputPerMillionUsd: 3 }
+};
+
+export const ZERO_PRICE: UnitPrice = { perImageUsd: 0, inputPerMillionUsd: 0, outputPerMillionUsd: 0 };
+
+export const DEFAULT_USAGE_SETTINGS: UsageSettings = {
+  prices: DEFAULT_UNIT_PRICES,
+  budgetUsd: 0,
+  budgetPeriod: 'day'
+};
+
+// Per browser like the API key, since the quota being spent belongs to the key
+export const loadUsageSettings = (): UsageSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(USAGE_SETTINGS_KEY) || '{}') as Partial<UsageSettings>;
+    return { ...DEFAULT_USAGE_SETTINGS, ...stored, prices: { ...DEFAULT_UNIT_PRICES, ...stored.prices } };
+  } catch {
+    return DEFAULT_USAGE_SETTINGS;
+  }
+};
+
+export const saveUsageSettings = (settings: UsageSettings) => {
+  localStorage.setItem(USAGE_SETTINGS_KEY, JSON.stringify(settings));
+};
+
+export const estimateCost = (record: Pick<UsageRecord, 'model' | 'images' | 'inputTokens' | 'outputTokens'>, prices: Record<string, UnitPrice>): number => {
+  const price = prices[record.model] || ZERO_PRICE;
+  return record.images * price.perImageUsd
+    + (record.inputTokens || 0) / 1e6 * price.inputPerMillionUsd
+    + (record.outputTokens || 0) / 1e6 * price.outputPerMillionUsd;
+};
+
+// Local calendar day, e.g. "2026-03-14"
+export const getDayKey = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+export const getPeriodStart = (period: UsageSettings['budgetPeriod'], now = Date.now()): number => {
+  const date = new Date(now);
+  return period === 'day'
+    ? new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime()
+    : new Date(date.getFullYear(), date.getMonth(), 1).getTime();
+};
+
+export const getPeriodSpend = (records: UsageRecord[], settings: UsageSettings, now = Date.now()): number => {
+  const start = getPeriodStart(settings.budgetPeriod, now);
+  return records
+    .filter(r => r.timestamp >= start)
+    .reduce((sum, r) => sum + estimateCost(r, settings.prices), 0);
+};
+
+interface UsageTrackerOptions {
+  projectId: string;
+  // Everything logged so far, used for the budget already spent this period
+  records: UsageRecord[];
+  onRecord?: (record: UsageRecord) => void;
+}
+
+// Wraps providers so every call is logged and none starts once the budget is used up
+export const createUsageTracker = ({ projectId, records, onRecord }: UsageTrackerOptions) => {
+  // Settings are re-read before each call so a raised budget applies on resume
+  let settings = loadUsageSettings();
+  const logged = [...records];
+  let periodStart = getPeriodStart(settings.budgetPeriod);
+  let spent = getPeriodSpend(records, settings);
+  // Cost of calls still in flight, so parallel workers can't overshoot together
+  let reserved = 0;
+
+  const reserve = (cost: number) => {
+    settings = loadUsageSettings();
+    const currentStart = getPeriodStart(settings.budgetPeriod);
+    if (currentStart !== periodStart) {
+      // A new day or month, or the period setting changed
+      periodStart = currentStart;
+      spent = getPeriodSpend(logged, settings);
+    }
+    if (settings.budgetUsd > 0 && spent + reserved + cost > settings.budgetUsd) {
+      throw new BudgetExceededError(`Budget of $${settings.budgetUsd.toFixed(2)} per ${settings.budgetPeriod} reached.`);
+    }
+    reserved += cost;
+  };
+
+  const record = async (entry: Omit<UsageRecord, 'projectId' | 'timestamp'>) => {
+    const usage: UsageRecord = { ...entry, projectId, timestamp: Date.now() };
+    logged.push(usage);
+    spent += estimateCost(usage, settings.prices);
+    try {
+      onRecord?.(await addUsageRecord(usage));
+    } catch (e) {
+      // Losing a log line must never fail the generation itself
+      console.error("Failed to log usage", e);
+    }
+  };
+
+  const trackImageProvider = (provider: ImageProvider, config: ImageProviderConfig): ImageProvider => ({
+    type: provider.type,
+    label: provider.label,
+    generate: async (prompt, options) => {
+      const model = getProviderModel(config);
+      const cost = estimateCost({ model, images: 1 }, settings.prices);
+      reserve(cost);
+      try {
+        const image = await provider.generate(prompt, options);
+        await record({
+          kind: 'image',
+          provider: provider.type,
+          model: image.metadata.model,
+          images: 1,
+          inputTokens: image.metadata.usage?.inputTokens,
+          outputTokens: image.metadata.usage?.outputTokens,
+          success: true
+        });
+        return image;
+      } catch (error) {
+        await record({ kind: 'image', provider: provider.type, model, images: 0, success: false });
+        throw error;
+      } finally {
+        reserved -= cost;
+      }
+    }
+  });
+
+  const trackScenePromptWriter = (writer: ScenePromptWriter, config: ImageProviderConfig): ScenePromptWriter => ({
+    describe: async (text, styleDescription) => {
+      reserve(0);
+      try {
+        const result = await writer.describe(text, styleDescription);
+        await record({
+          kind: 'text',
+          provider: config.type === 'mock' ? 'mock' : 'gemini',
+          model: result.model,
+          images: 0,
+          inputTokens: result.usage?.inputTokens,
+          outputTokens: result.usage?.outputTokens,
+          success: true
+        });
+        return result;
+      } catch (error) {
+        await record({
+          kind: 'text',
+          provider: config.type === 'mock' ? 'mock' : 'gemini',
+          model: getScenePromptModel(config),
+          images: 0,
+          success: false
+        });
+        throw error;
+      }
+    }
+  });
+
+  // Checks run on the text model, so they are logged like scene prompts
+  const trackImageChecker = (checker: ImageChecker, config: ImageProviderConfig): ImageChecker => ({
+    check: async (image, context) => {
+      reserve(0);
+      try {
+        const result = await checker.check(image, context);
+        await record({
+          kind: 'text',
+          provider: config.type === 'mock' ? 'mock' : 'gemini',
+          model: result.quality.model,
+          images: 0,
+          inputTokens: result.usage?.inputTokens,
+          outputTokens: result.usage?.outputTokens,
+          success: true
+        });
+        return result;
+      } catch (error) {
+        await record({
+          kind: 'text',
+          provider: config.type === 'mock' ? 'mock' : 'gemini',
+          model: getScenePromptModel(config),
+          images: 0,
+          success: false
+        });
+        throw error;
+      }
+    }
+  });
+
+  return { trackImageProvider, trackScenePromptWriter, trackImageChecker };
+};
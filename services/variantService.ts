@@ -0,0 +1,64 @@
+import { ImageMeta, ImageVariant } from '../types';
+import { saveThumbnailsFor } from './thumbnailService';
+import { saveImage, getImage, deleteImage, saveImageMeta, getImageMeta, deleteImageMeta, getVariants, saveVariants, deleteVariants } from './dbService';
+
+export const MAX_CANDIDATES = 4;
+
+// The selected variant is what the list, ZIP export and backups see
+export const selectVariant = async (variant: ImageVariant): Promise<ImageMeta> => {
+  const { id, sentenceId, generationId, image, ...details } = variant;
+  const meta: ImageMeta = { ...details, id: sentenceId, variantId: id };
+  await saveImage(sentenceId, image);
+  await saveThumbnailsFor([{ id: sentenceId, image }]);
+  await saveImageMeta(meta);
+  return meta;
+};
+
+// Images saved before variants existed (or restored from a backup) have no
+// version of their own; keep a copy before anything replaces them
+export const archiveUnversionedImage = async (sentenceId: string): Promise<void> => {
+  const [image, meta] = await Promise.all([getImage(sentenceId), getImageMeta(sentenceId)]);
+  if (!image || meta?.variantId) return;
+  const { id, variantId, ...details } = meta || { id: sentenceId, prompt: '', negativePrompt: '', createdAt: 0 };
+  await saveVariants([{
+    ...details,
+    id: crypto.randomUUID(),
+    sentenceId,
+    generationId: crypto.randomUUID(),
+    image
+  }]);
+};
+
+// Drops the oldest versions beyond `limit`, never the selected one
+export const pruneVariants = async (sentenceId: string, limit: number): Promise<void> => {
+  const [variants, meta] = await Promise.all([getVariants(sentenceId), getImageMeta(sentenceId)]);
+  const excess = variants.length - Math.max(1, limit);
+  if (excess <= 0) return;
+  const removable = variants.filter(v => v.id !== meta?.variantId).slice(0, excess);
+  await deleteVariants(removable.map(v => v.id));
+};
+
+// Stores a finished generation and selects its first candidate
+export const saveGeneration = async (variants: ImageVariant[], historyLimit: number): Promise<ImageMeta> => {
+  const sentenceId = variants[0].sentenceId;
+  await archiveUnversionedImage(sentenceId);
+  await saveVariants(variants);
+  const meta = await selectVariant(variants[0]);
+  // Always keep room for every candidate of the new generation
+  await pruneVariants(sentenceId, Math.max(historyLimit, variants.length));
+  return meta;
+};
+
+export const discardOtherVariants = async (sentenceId: string, keepIds: string[]): Promise<ImageVariant[]> => {
+  const variants = await getVariants(sentenceId);
+  await deleteVariants(variants.filter(v => !keepIds.includes(v.id)).map(v => v.id));
+  return variants.filter(v => keepIds.includes(v.id));
+};
+
+// For sentences that are gone: the current image, its metadata and every version
+export const deleteSentenceImages = async (sentenceId: string): Promise<void> => {
+  const variants = await getVariants(sentenceId);
+  await deleteVariants(variants.map(v => v.id));
+  await deleteImage(sentenceId);
+  await deleteImageMeta(sentenceId);
+};
@@ -2,8 +2,67 @@
 export interface EnglishSentence {
   id: string;
   english_text: string;
-  imageUrl?: string;
   status: 'pending' | 'processing' | 'completed' | 'error';
+  // Raw message and classified reason of the last failure
+  error?: string;
+  errorKind?: FailureKind;
+  // Set when an automated quality check failed and a person should look
+  flaggedForReview?: boolean;
+  // Editorial sign-off on the current image; cleared whenever the image changes
+  review?: ReviewStatus;
+  reviewNote?: string;
+  reviewedAt?: number;
+  // The text changed after the current image was generated
+  stale?: boolean;
+  // Two-stage pipeline: scene description written first, reviewed, then used for the image
+  visualPrompt?: string;
+  visualPromptStatus?: 'draft' | 'approved';
+  // Extra CSV columns by header name, available to prompt templates
+  fields?: Record<string, string>;
+}
+
+export type FieldType = 'text' | 'number' | 'tags';
+
+// Describes one of the sentence fields; values stay stored as text on each sentence
+export interface FieldDefinition {
+  name: string;
+  type: FieldType;
+  // Shown as its own column in the sentence table
+  visible: boolean;
+}
+
+export type ReviewStatus = 'approved' | 'rejected' | 'needs_regeneration';
+
+// Why a generation failed, which decides how to fix it
+export type FailureKind = 'safety' | 'no_image' | 'rate_limit' | 'quota' | 'network' | 'invalid_key' | 'unknown';
+
+export type ListFilter = 'all' | 'failed' | 'flagged' | 'stale' | 'unreviewed' | ReviewStatus;
+export type SearchMode = 'text' | 'word' | 'regex';
+export type SortKey = 'list' | 'id' | 'length' | 'generated';
+export type GeneratedWithin = 'any' | 'today' | 'week' | 'month' | 'range';
+
+// Which sentences the list shows and in what order; saved views keep one of these
+export interface ListQuery {
+  search: string;
+  searchMode: SearchMode;
+  filter: ListFilter;
+  // Empty means any
+  statuses: EnglishSentence['status'][];
+  errorKinds: FailureKind[];
+  field: { name: string; value: string } | null;
+  // Relative windows are resolved when the query runs, so "today" stays today
+  generated: GeneratedWithin;
+  // yyyy-mm-dd, both inclusive; only used for 'range'
+  generatedFrom?: string;
+  generatedTo?: string;
+  sortKey: SortKey;
+  sortDescending: boolean;
+}
+
+export interface SavedView {
+  id: string;
+  name: string;
+  query: ListQuery;
 }
 
 export interface AppState {
@@ -17,5 +76,257 @@ export interface AppState {
 export enum GenerationStatus {
   IDLE = 'IDLE',
   RUNNING = 'RUNNING',
+  PAUSED = 'PAUSED',
   COMPLETED = 'COMPLETED'
 }
+
+export type ImageProviderType = 'gemini' | 'http' | 'mock';
+
+export type HttpImageApi = 'openai' | 'automatic1111';
+
+export interface ImageProviderConfig {
+  type: ImageProviderType;
+  // HTTP provider only
+  api?: HttpImageApi;
+  baseUrl?: string;
+  model?: string;
+  apiKey?: string;
+}
+
+export interface ReferenceImage {
+  // base64 without the data: prefix
+  base64: string;
+  mimeType: string;
+  // What the model should take from the image, e.g. "Character: Ken"
+  label: string;
+}
+
+export interface ImageGenerationOptions {
+  negativePrompt?: string;
+  referenceImages?: ReferenceImage[];
+  aspectRatio?: string;
+  width?: number;
+  height?: number;
+  seed?: number;
+}
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface GeneratedImageMetadata {
+  provider: ImageProviderType;
+  model: string;
+  width?: number;
+  height?: number;
+  seed?: number;
+  durationMs: number;
+  // Reported by token-billed providers
+  usage?: TokenUsage;
+}
+
+export interface GeneratedImage {
+  // Raw image bytes, base64 encoded (no data: prefix)
+  base64: string;
+  mimeType: string;
+  metadata: GeneratedImageMetadata;
+}
+
+export interface ScenePrompt {
+  text: string;
+  model: string;
+  usage?: TokenUsage;
+}
+
+export interface ScenePromptWriter {
+  describe: (text: string, styleDescription: string) => Promise<ScenePrompt>;
+}
+
+export type QualityFlag = 'contains_text' | 'contains_animal' | 'sentence_mismatch' | 'style_mismatch';
+
+export interface QualityCheck {
+  // 0-100, how well the image serves the sentence overall
+  score: number;
+  flags: QualityFlag[];
+  notes?: string;
+  model: string;
+  checkedAt: number;
+}
+
+export interface ImageChecker {
+  check: (
+    image: Pick<GeneratedImage, 'base64' | 'mimeType'>,
+    context: { text: string; styleDescription: string }
+  ) => Promise<{ quality: QualityCheck; usage?: TokenUsage }>;
+}
+
+export interface QualitySettings {
+  enabled: boolean;
+  minScore: number;
+  // What happens to a generated image that fails the check
+  onFail: 'regenerate' | 'review';
+}
+
+export interface ImageProvider {
+  type: ImageProviderType;
+  label: string;
+  generate: (prompt: string, options?: ImageGenerationOptions) => Promise<GeneratedImage>;
+}
+
+export type JobStatus = 'queued' | 'processing' | 'failed';
+
+// A queued sentence, persisted so a batch survives reloads
+export interface GenerationJob {
+  id: string;
+  text: string;
+  prompt: string;
+  negativePrompt: string;
+  templateVersion?: number;
+  styleDescription?: string;
+  // Characters whose reference images go with the request
+  characterIds?: string[];
+  // Images to generate for the sentence; the first becomes the selected one
+  candidates?: number;
+  status: JobStatus;
+  attempts: number;
+  lastError?: string;
+  lastErrorKind?: FailureKind;
+  enqueuedAt: number;
+  updatedAt: number;
+}
+
+export interface QueueState {
+  paused: boolean;
+}
+
+export interface SchedulerOptions {
+  concurrency: number;
+  requestsPerMinute: number;
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+// Per-browser Gemini credentials and models, kept out of project data and backups
+export interface GeminiSettings {
+  apiKey: string;
+  textModel: string;
+  imageModel: string;
+}
+
+// One provider call, logged across all projects for spend tracking
+export interface UsageRecord {
+  id?: number;
+  projectId: string;
+  kind: 'image' | 'text';
+  provider: ImageProviderType;
+  model: string;
+  images: number;
+  inputTokens?: number;
+  outputTokens?: number;
+  success: boolean;
+  timestamp: number;
+}
+
+export interface UnitPrice {
+  perImageUsd: number;
+  inputPerMillionUsd: number;
+  outputPerMillionUsd: number;
+}
+
+export interface UsageSettings {
+  // Keyed by model name
+  prices: Record<string, UnitPrice>;
+  // 0 disables the cap
+  budgetUsd: number;
+  budgetPeriod: 'day' | 'month';
+}
+
+export interface ProjectSettings {
+  styleDescription: string;
+  batchSize: number;
+  providerConfig: ImageProviderConfig;
+  schedulerOptions: SchedulerOptions;
+  twoStage: boolean;
+  promptTemplate: PromptTemplate;
+  // Sentence ids whose current image anchors the project's look
+  styleReferenceIds: string[];
+  candidateCount: number;
+  // Versions kept per sentence; older unselected ones are pruned
+  historyLimit: number;
+  qualityCheck: QualitySettings;
+  fieldDefinitions: FieldDefinition[];
+  savedViews: SavedView[];
+}
+
+export interface PromptTemplate {
+  // Bumped on every saved edit and recorded with each image
+  version: number;
+  body: string;
+  negativePrompt: string[];
+  updatedAt: number;
+}
+
+// Everything needed to explain how an image was produced
+export interface GenerationDetails {
+  templateVersion?: number;
+  // The full prompt as sent to the provider
+  prompt: string;
+  negativePrompt: string;
+  styleDescription?: string;
+  provider?: ImageProviderType;
+  model?: string;
+  aspectRatio?: string;
+  durationMs?: number;
+  // Which try of the job produced it
+  attempts?: number;
+  quality?: QualityCheck;
+  createdAt: number;
+}
+
+// How the current image of a sentence was produced
+export interface ImageMeta extends GenerationDetails {
+  id: string;
+  // The variant currently selected, when the image came from one
+  variantId?: string;
+}
+
+// One generated image for a sentence; the selected one is copied into the images store.
+// Variants are never overwritten, so they double as the sentence's version history.
+export interface ImageVariant extends GenerationDetails {
+  id: string;
+  sentenceId: string;
+  // Shared by the candidates produced by one generation
+  generationId: string;
+  image: Blob;
+}
+
+export interface Project {
+  id: string;
+  name: string;
+  // IndexedDB database holding this project's sentences, images, jobs and settings
+  dbName: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface Character {
+  id: string;
+  name: string;
+  // Other ways the text refers to them, e.g. "my mother", "Ms. Sato"
+  aliases: string[];
+  appearance: string;
+  // Data URL
+  referenceImage?: string;
+}
+
+// Maps a pronoun to a character for a range of sentences (a lesson)
+export interface PronounPin {
+  id: string;
+  pronoun: string;
+  characterId: string;
+  // Inclusive sentence ID range; open ends cover the rest of the list
+  fromId?: string;
+  toId?: string;
+}